@@ -0,0 +1,37 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { Linter, Scene, ScriptSource } from '../core';
+import { ParserSchema } from '../stores/parser';
+import { load, format, fail } from './source';
+
+/**
+ * Statically checks the given script file and its includes.
+ * Custom commands are not known here, so they are reported as unknown.
+ * @param file - Script file, relative to the asset path.
+ * @returns Found diagnostics.
+ */
+export const check = async (file: string) => {
+	const context = await load(file);
+	const diagnostics = context.diagnose(ParserSchema);
+	if (diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+		return diagnostics;
+	}
+	const { script, declare, config } = context.parse(ParserSchema);
+	const expressions = config?.engine?.expressions;
+	const scene = new Scene(script as ScriptSource, { expressions, declare });
+	const issues = new Linter(scene).lint(script as ScriptSource);
+	return [...diagnostics, ...Linter.diagnose(issues, context)];
+};
+
+/**
+ * Command line entry (e.g., `npm run check -- script.yml`).
+ */
+check(process.argv[2] ?? 'script.yml')
+	.then((diagnostics) => {
+		const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+		diagnostics.forEach((diagnostic) => console.log(format(diagnostic)));
+		console.log(`${diagnostics.length} problem(s), ${errors.length} error(s)`);
+		process.exitCode = errors.length ? 1 : 0;
+	})
+	.catch(fail);
@@ -0,0 +1,47 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { Explorer, ExplorerCoverage, ScriptPath, ScriptSource } from '../core';
+import { ParserSchema } from '../stores/parser';
+import { load, fail } from './source';
+
+/**
+ * Explores every branch of the given script file and prints the report.
+ * Custom commands are not known here, so branches using them end with errors.
+ * @param file - Script file, relative to the asset path.
+ */
+export const explore = async (file: string) => {
+	const context = await load(file);
+	const { script, declare, config } = context.parse(ParserSchema);
+	const expressions = config?.engine?.expressions;
+	const report = new Explorer(script as ScriptSource, { expressions, declare }).explore();
+
+	const at = (path: ScriptPath) => {
+		const pos = context.trace(['script', ...path]);
+		return pos ? `${pos.file}:${pos.line}:${pos.col}` : path.join('.');
+	};
+	const coverage = (
+		name: string,
+		{ visited, total, percent, unvisited }: ExplorerCoverage,
+	) => {
+		console.log(`${name}: ${visited}/${total} (${percent}%)`);
+		unvisited.forEach((path) => console.log(`  unvisited ${at(path)}`));
+	};
+	for (const { type, path, choices, message } of report.outcomes) {
+		console.log(`${at(path)} ${type}${message ? `: ${message}` : ''}`);
+		console.log(`  choices: ${choices.join(' > ') || '(none)'}`);
+	}
+	coverage('Pages', report.pages);
+	coverage('Branches', report.branches);
+	return report;
+};
+
+/**
+ * Command line entry (e.g., `npm run explore -- script.yml`).
+ */
+explore(process.argv[2] ?? 'script.yml')
+	.then((report) => {
+		const failed = report.outcomes.some((outcome) => outcome.type === 'error');
+		process.exitCode = failed ? 1 : 0;
+	})
+	.catch(fail);
@@ -0,0 +1,25 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { Graph, ScriptSource } from '../core';
+import { ParserSchema } from '../stores/parser';
+import { load, fail } from './source';
+
+/**
+ * Builds the story graph of the given script file.
+ * @param file - Script file, relative to the asset path.
+ * @param format - Output format.
+ * @returns Graph source.
+ */
+export const graph = async (file: string, format: 'mermaid' | 'dot') => {
+	const context = await load(file);
+	const graph = Graph.from(context.parse(ParserSchema).script as ScriptSource);
+	return format === 'dot' ? graph.toDot() : graph.toMermaid();
+};
+
+/**
+ * Command line entry (e.g., `npm run graph -- script.yml dot`).
+ */
+graph(process.argv[2] ?? 'script.yml', process.argv[3] === 'dot' ? 'dot' : 'mermaid')
+	.then((text) => console.log(text))
+	.catch(fail);
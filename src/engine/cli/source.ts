@@ -0,0 +1,54 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { createPinia, setActivePinia } from 'pinia';
+import { Parser, ParserDiagnostic, ParserError } from '../core';
+import { useAssets } from '../stores/asset';
+import { bundle, createTags } from '../stores/parser';
+
+/**
+ * Asset path.
+ * Mirrors `PATH_ASSETS` of the Vite config.
+ * @internal
+ */
+export const PATH_ASSETS = process.env.ASSETS ?? resolve('assets');
+
+/**
+ * Loads the given script file with its includes from the asset path.
+ * @param file - Script file, relative to the asset path.
+ * @returns Parser context (not validated).
+ */
+export const load = async (file: string) => {
+	setActivePinia(createPinia());
+	const parser = new Parser(createTags(useAssets().resolve));
+	const read = async (file: string) => {
+		return parser.parse(await readFile(join(PATH_ASSETS, file), 'utf8'), file);
+	};
+	return bundle(await read(file), read);
+};
+
+/**
+ * Formats the given diagnostic as a single line.
+ * @param diagnostic - Diagnostic to format.
+ * @returns Formatted diagnostic.
+ */
+export const format = ({ message, severity, pos }: ParserDiagnostic) => {
+	const at = pos ? `${pos.file}:${pos.line}:${pos.col} ` : '';
+	return `${at}${severity}: ${message}`;
+};
+
+/**
+ * Reports the given command line failure and sets the failure exit code.
+ * Parser errors are reported with their diagnostics, the rest with their messages.
+ * @param err - Failure.
+ */
+export const fail = (err: unknown) => {
+	if (err instanceof ParserError && err.diagnostics.length) {
+		err.diagnostics.forEach((diagnostic) => console.error(format(diagnostic)));
+	} else {
+		console.error(`error: ${err instanceof Error ? err.message : err}`);
+	}
+	process.exitCode = 1;
+};
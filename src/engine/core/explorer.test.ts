@@ -0,0 +1,111 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { describe, it, expect } from 'vitest';
+import { Explorer } from './explorer';
+import { Scene } from './scene';
+import { ScriptSource } from './script';
+
+describe('Explorer', () => {
+	it('reports endings and coverage', () => {
+		const source: ScriptSource = [
+			{ page: { text: 'Pick one!' } },
+			{
+				menu: {
+					Left: [{ set: { name: 'side', value: 'left' } }],
+					Right: [{ set: { name: 'side', value: 'right' } }],
+				},
+			},
+			{
+				if: {
+					cond: Scene.exp('side == "left"'),
+					then: [{ page: { text: 'Left!' } }],
+					else: [{ page: { text: 'Right!' } }],
+				},
+			},
+			{
+				if: {
+					cond: Scene.exp('side == "middle"'),
+					then: [{ page: { text: 'Middle!' } }],
+				},
+			},
+		];
+		const report = new Explorer(source).explore();
+		expect(report.outcomes).toEqual([
+			{ type: 'ending', path: [2, 'if', 'then', 0], choices: ['Left'] },
+			{ type: 'ending', path: [2, 'if', 'else', 0], choices: ['Right'] },
+		]);
+		expect(report.pages).toEqual({
+			total: 4,
+			visited: 3,
+			percent: 75,
+			unvisited: [[3, 'if', 'then', 0]],
+		});
+		expect(report.branches).toEqual({
+			total: 3,
+			visited: 2,
+			percent: 66.67,
+			unvisited: [[3, 'if', 'then']],
+		});
+	});
+
+	it('reports dead ends, loops and errors', () => {
+		const source: ScriptSource = [
+			{ label: 'start' },
+			{
+				menu: {
+					'Dead End': [{ menu: {} }],
+					Again: [{ jump: 'start' }],
+					Runaway: [{ label: 'runaway' }, { page: { text: 'A' } }, { jump: 'runaway' }],
+					Error: [{ throw: 'Oops!' }],
+				},
+			},
+		];
+		const report = new Explorer(source, { limit: 50 }).explore();
+		expect(report.outcomes).toEqual([
+			{
+				type: 'dead-end',
+				path: [1, 'menu', 'Dead End', 0],
+				choices: ['Dead End'],
+				message: 'Menu has no items',
+			},
+			{
+				type: 'loop',
+				path: [1],
+				choices: ['Again'],
+				message: 'Choices lead back to the same state',
+			},
+			{
+				type: 'loop',
+				path: [1, 'menu', 'Runaway', 1],
+				choices: ['Runaway'],
+				message: 'Step limit (50) exceeded',
+			},
+			{
+				type: 'error',
+				path: [1, 'menu', 'Error', 0],
+				choices: ['Error'],
+				message: 'Oops!',
+			},
+		]);
+	});
+
+	it('keeps persistent variables per branch', () => {
+		const persistent = { unlocked: false };
+		const source: ScriptSource = [
+			{
+				menu: {
+					Unlock: [{ set: { name: 'global.unlocked', value: true } }],
+					Skip: [],
+				},
+			},
+			{ if: { cond: Scene.exp('global.unlocked'), then: [{ throw: 'Unlocked!' }] } },
+		];
+		const report = new Explorer(source, { persistent }).explore();
+		expect(report.outcomes).toMatchObject([
+			{ type: 'error', choices: ['Unlock'], message: 'Unlocked!' },
+			{ type: 'ending', choices: ['Skip'] },
+		]);
+		expect(persistent).toEqual({ unlocked: false });
+	});
+});
@@ -0,0 +1,262 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import traverse from 'traverse';
+import { cloneDeep, isPlainObject } from 'lodash';
+import { Scene } from './scene';
+import {
+	ScriptCommand,
+	ScriptError,
+	ScriptNode,
+	ScriptOptions,
+	ScriptPath,
+	ScriptSource,
+	ScriptValue,
+} from './script';
+
+/**
+ * Explorer outcome.
+ * Endings point to the last visited page, other outcomes to the node they were found at.
+ * Loops are either runaway playthroughs or choices leading back to a state seen on the same path.
+ */
+// prettier-ignore
+export type ExplorerOutcome = {
+	type: 'ending' | 'dead-end' | 'loop' | 'error';
+	path: ScriptPath;
+	choices: Array<string>;
+	message?: string;
+};
+
+/**
+ * Explorer coverage of a single node kind.
+ */
+// prettier-ignore
+export type ExplorerCoverage = {
+	total: number;
+	visited: number;
+	percent: number;
+	unvisited: Array<ScriptPath>;
+};
+
+/**
+ * Explorer report.
+ */
+// prettier-ignore
+export type ExplorerReport = {
+	outcomes: Array<ExplorerOutcome>;
+	pages: ExplorerCoverage;
+	branches: ExplorerCoverage;
+};
+
+/**
+ * Explorer options.
+ */
+// prettier-ignore
+export type ExplorerOptions = ScriptOptions & {
+	label?: string;
+	limit?: number;
+	commands?: Record<string, ScriptCommand<unknown, Scene>>;
+};
+
+/**
+ * Maximum number of steps allowed between two menus.
+ * @internal
+ */
+export const EXPLORER_STEP_LIMIT = 1000;
+
+/**
+ * Scene reporting every executed node.
+ * Keeps paths of the last executed node and the last executed page.
+ * @internal
+ */
+export class ExplorerScene extends Scene {
+	public listener?: (node: ScriptNode) => void;
+	public last: ScriptPath = [];
+	public page: ScriptPath | null = null;
+
+	protected override exec(node: ScriptNode) {
+		this.listener?.(node);
+		super.exec(node);
+	}
+}
+
+/**
+ * Exhaustive scene explorer.
+ * Walks every menu choice depth-first, restoring scene snapshots (and persistent variables) at each menu.
+ * Conditional branches are explored as far as some sequence of choices reaches them.
+ */
+export class Explorer {
+	private outcomes: Array<ExplorerOutcome> = [];
+	private snapshots = new Set<string>();
+	private visited = new Set<ScriptNode>();
+	private paths = new Map<ScriptNode, ScriptPath>();
+
+	constructor(
+		private source: ScriptSource,
+		private options: ExplorerOptions = {},
+	) {
+		const paths = this.paths;
+		traverse(source).forEach(function (node) {
+			if (isPlainObject(node)) {
+				paths.set(
+					node,
+					this.path.map((key) => (/^\d+$/.test(key) ? parseInt(key) : key)),
+				);
+			}
+		});
+	}
+
+	/**
+	 * Explores the scene from its beginning (or the `label` option).
+	 * @returns Exploration report.
+	 */
+	public explore(): ExplorerReport {
+		this.outcomes = [];
+		this.snapshots.clear();
+		this.visited.clear();
+		const scene = this.create(this.options.persistent ?? {});
+		if (this.options.label) {
+			scene.jump(this.options.label);
+		}
+		this.walk(scene, [], new Set());
+		const pages = [...this.paths.entries()].filter(
+			([node]) => this.type(node) === 'page',
+		);
+		const branches = [...this.paths.entries()].flatMap(([node, path]) => {
+			const args = this.type(node) === 'if' ? (node as Record<string, unknown>).if : null;
+			return ['then', 'else'].flatMap((key) => {
+				const block = isPlainObject(args) ? (args as Record<string, unknown>)[key] : null;
+				return Array.isArray(block) && block.length
+					? [[block[0], [...path, 'if', key]]]
+					: [];
+			}) as Array<[ScriptNode, ScriptPath]>;
+		});
+		return {
+			outcomes: this.outcomes,
+			pages: this.coverage(pages),
+			branches: this.coverage(branches),
+		};
+	}
+
+	/**
+	 * Plays the given `scene` until its next menu, then walks every menu item.
+	 * @param scene - Scene to play.
+	 * @param choices - Choices made so far.
+	 * @param ancestors - Snapshots of the menus along the current path.
+	 * @param pick - Menu item ID to pick first (optional).
+	 * @internal
+	 */
+	protected walk(
+		scene: ExplorerScene,
+		choices: Array<string>,
+		ancestors: Set<string>,
+		pick?: string,
+	) {
+		const limit = this.options.limit ?? EXPLORER_STEP_LIMIT;
+		const report = (
+			type: ExplorerOutcome['type'],
+			path: ScriptPath,
+			message?: string,
+		) => {
+			this.outcomes.push({ type, path, choices, ...(message ? { message } : {}) });
+		};
+		try {
+			if (pick) {
+				scene.pick(pick);
+			}
+			for (let steps = 0; ; steps++) {
+				const menu = scene.getMenu();
+				if (!menu && scene.isDone()) {
+					return report('ending', scene.page ?? scene.last);
+				}
+				if (steps >= limit) {
+					return report('loop', scene.last, `Step limit (${limit}) exceeded`);
+				}
+				if (!menu) {
+					scene.next();
+					continue;
+				}
+				const path = menu[0]?.path.slice(0, -2) ?? scene.last;
+				if (!menu.length) {
+					return report('dead-end', path, 'Menu has no items');
+				}
+				const save = scene.save();
+				const persistent = scene.getPersistent();
+				const snapshot = JSON.stringify([save, persistent]);
+				if (ancestors.has(snapshot)) {
+					return report('loop', path, 'Choices lead back to the same state');
+				}
+				if (this.snapshots.has(snapshot)) {
+					return;
+				}
+				this.snapshots.add(snapshot);
+				for (const item of menu) {
+					const forked = this.create(persistent).load(save);
+					forked.last = scene.last;
+					forked.page = scene.page;
+					this.walk(
+						forked,
+						[...choices, item.label],
+						new Set([...ancestors, snapshot]),
+						item.id,
+					);
+				}
+				return;
+			}
+		} catch (err) {
+			const path = err instanceof ScriptError && err.path ? err.path : scene.last;
+			report('error', path, (err as Error).message);
+		}
+	}
+
+	/**
+	 * Creates a scene recording executed nodes.
+	 * Scenes get their own copy of persistent variables, so that branches do not affect each other.
+	 * @param persistent - Persistent variables.
+	 * @returns Scene.
+	 * @internal
+	 */
+	protected create(persistent: Record<string, ScriptValue>) {
+		const { commands, ...options } = this.options;
+		const scene = new ExplorerScene(this.source, {
+			...options,
+			persistent: cloneDeep(persistent),
+		});
+		for (const [name, command] of Object.entries(commands ?? {})) {
+			scene.define(name, command);
+		}
+		scene.listener = (node) => {
+			const path = this.paths.get(node);
+			if (path) {
+				scene.last = path;
+				scene.page = this.type(node) === 'page' ? path : scene.page;
+				this.visited.add(node);
+			}
+		};
+		return scene;
+	}
+
+	/**
+	 * Returns command type of the given `node`.
+	 * @internal
+	 */
+	protected type(node: ScriptNode) {
+		const keys = isPlainObject(node) ? Object.keys(node as object) : [];
+		return keys.length === 1 ? keys[0] : undefined;
+	}
+
+	/**
+	 * Computes coverage of the given nodes.
+	 * @param nodes - Nodes to check, paired with the paths to report.
+	 * @returns Coverage.
+	 * @internal
+	 */
+	protected coverage(nodes: Array<[ScriptNode, ScriptPath]>): ExplorerCoverage {
+		const unvisited = nodes.flatMap(([node, path]) => {
+			return this.visited.has(node) ? [] : [path];
+		});
+		const count = nodes.length - unvisited.length;
+		const percent = nodes.length ? Math.round((count / nodes.length) * 10000) / 100 : 100;
+		return { total: nodes.length, visited: count, percent, unvisited };
+	}
+}
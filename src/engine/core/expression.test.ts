@@ -0,0 +1,90 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { describe, it, expect } from 'vitest';
+import { Expression, ExpressionError } from './expression';
+
+const evaluate = (source: string, vars: Record<string, unknown> = {}) => {
+	return new Expression(source).evaluate(vars);
+};
+
+describe('Expression', () => {
+	it('implements literals', () => {
+		expect(evaluate('150')).toBe(150);
+		expect(evaluate('1.5')).toBe(1.5);
+		expect(evaluate('"Hello"')).toBe('Hello');
+		expect(evaluate("'Hello \\'World\\''")).toBe("Hello 'World'");
+		expect(evaluate('true')).toBe(true);
+		expect(evaluate('null')).toBe(null);
+		expect(evaluate('[1, "a", [true]]')).toEqual([1, 'a', [true]]);
+	});
+
+	it('implements arithmetic', () => {
+		expect(evaluate('1 + 2 * 3')).toBe(7);
+		expect(evaluate('(1 + 2) * 3')).toBe(9);
+		expect(evaluate('10 - 4 - 3')).toBe(3);
+		expect(evaluate('7 % 4 / 2')).toBe(1.5);
+		expect(evaluate('-a + +b', { a: 1, b: 2 })).toBe(1);
+		expect(evaluate('"Hello " + name + "!"', { name: 'World' })).toBe('Hello World!');
+		expect(evaluate('"Count: " + 5')).toBe('Count: 5');
+	});
+
+	it('implements comparison and logic', () => {
+		expect(evaluate('1 < 2 && 2 <= 2 && 3 > 2 && 3 >= 4')).toBe(false);
+		expect(evaluate('"a" < "b"')).toBe(true);
+		expect(evaluate('1 == 1 && 1 === 1 && 1 != "1" && 1 !== 2')).toBe(true);
+		expect(evaluate('0 || "default"')).toBe('default');
+		expect(evaluate('0 ?? "default"')).toBe(0);
+		expect(evaluate('!a && "yes"', { a: false })).toBe('yes');
+		expect(evaluate('a > 0 ? "positive" : a < 0 ? "negative" : "zero"', { a: -1 })).toBe(
+			'negative',
+		);
+	});
+
+	it('implements member access', () => {
+		const vars = { a: { b: [10, { c: 'Hello' }] }, key: 'b' };
+		expect(evaluate('a.b[0]', vars)).toBe(10);
+		expect(evaluate('a[key][1].c', vars)).toBe('Hello');
+		expect(evaluate('a.b.length', vars)).toBe(2);
+		expect(evaluate('a.missing', vars)).toBe(null);
+		expect(evaluate('vars.a.b[0]', vars)).toBe(10);
+		expect(evaluate('vars.missing', vars)).toBe(null);
+	});
+
+	it('implements helper functions', () => {
+		expect(evaluate('max(1, 5, 3) + min(4, 2)')).toBe(7);
+		expect(evaluate('clamp(15, 0, 10)')).toBe(10);
+		expect(evaluate('len("Hello") + len([1, 2])')).toBe(7);
+		expect(evaluate('upper("a") + lower("B")')).toBe('Ab');
+		expect(evaluate('includes(["a", "b"], "b")')).toBe(true);
+	});
+
+	it('does not expose JS globals and prototypes', () => {
+		expect(() => evaluate('window')).toThrow('Unknown variable "window" (column 1)');
+		expect(evaluate('a.constructor', { a: {} })).toBe(null);
+		expect(evaluate('a.__proto__', { a: {} })).toBe(null);
+		expect(() => evaluate('a.toString()', { a: {} })).toThrow(
+			'Unexpected token "(" (column 11)',
+		);
+		expect(() => evaluate('alert(1)')).toThrow('Unknown function "alert" (column 1)');
+	});
+
+	it('fails with errors pointing at the offending column', () => {
+		const cases: Array<[string, string]> = [
+			['1 +', 'Unexpected end of expression (column 4)'],
+			['1 + )', 'Unexpected token ")" (column 5)'],
+			['a # b', 'Unexpected character "#" (column 3)'],
+			['"Hello', 'Unterminated string (column 1)'],
+			['1 + missing', 'Unknown variable "missing" (column 5)'],
+			['1 + a.b.c', 'Unable to read "c" of null (column 8)'],
+			['1 + 2 - true', 'Expected number, received boolean (column 7)'],
+			['abs("a")', 'Expected number, received string (column 1)'],
+		];
+		for (const [source, message] of cases) {
+			expect(() => evaluate(source, { a: {} })).toThrowError(
+				expect.objectContaining({ name: 'ExpressionError', message }),
+			);
+		}
+		expect(() => evaluate('1 +')).toThrow(ExpressionError);
+	});
+});
@@ -0,0 +1,554 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+
+/**
+ * Expression token.
+ * @internal
+ */
+// prettier-ignore
+export type ExpressionToken = {
+	type: 'number' | 'string' | 'name' | 'punct' | 'end';
+	value: string;
+	col: number;
+};
+
+/**
+ * Expression syntax tree node.
+ */
+// prettier-ignore
+export type ExpressionNode = { col: number } & (
+	| { type: 'literal', value: unknown }
+	| { type: 'array', items: Array<ExpressionNode> }
+	| { type: 'variable', name: string }
+	| { type: 'member', object: ExpressionNode, property: ExpressionNode }
+	| { type: 'call', name: string, args: Array<ExpressionNode> }
+	| { type: 'unary', operator: string, argument: ExpressionNode }
+	| { type: 'binary', operator: string, left: ExpressionNode, right: ExpressionNode }
+	| { type: 'conditional', test: ExpressionNode, then: ExpressionNode, else: ExpressionNode }
+);
+
+/**
+ * Expression helper function.
+ */
+// prettier-ignore
+export type ExpressionHelper = (
+	(...args: Array<unknown>) => unknown
+);
+
+/**
+ * Expression error.
+ * Column is 1-based and points to the offending part of the expression.
+ */
+export class ExpressionError extends Error {
+	public override name = 'ExpressionError';
+
+	// prettier-ignore
+	constructor(message: string, public col: number) {
+		super(`${message} (column ${col})`);
+	}
+}
+
+/**
+ * Binary operator precedence.
+ * @internal
+ */
+const PRECEDENCE: Record<string, number> = {
+	'??': 1,
+	'||': 2,
+	'&&': 3,
+	'==': 4,
+	'!=': 4,
+	'===': 4,
+	'!==': 4,
+	'<': 5,
+	'<=': 5,
+	'>': 5,
+	'>=': 5,
+	'+': 6,
+	'-': 6,
+	'*': 7,
+	'/': 7,
+	'%': 7,
+};
+
+/**
+ * Punctuators, longest first.
+ * @internal
+ */
+// prettier-ignore
+const PUNCTUATORS = [
+	'===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??',
+	'+', '-', '*', '/', '%', '<', '>', '!', '(', ')', '[', ']', '.', ',', '?', ':',
+];
+
+/**
+ * Literal keywords.
+ * @internal
+ */
+const KEYWORDS: Record<string, unknown> = {
+	true: true,
+	false: false,
+	null: null,
+};
+
+/**
+ * Asserts that `value` is a number.
+ * @internal
+ */
+const number = (value: unknown) => {
+	if (typeof value !== 'number') {
+		throw new TypeError(`Expected number, received ${typeName(value)}`);
+	}
+	return value;
+};
+
+/**
+ * Asserts that `value` is a string or an array.
+ * @internal
+ */
+const sequence = (value: unknown) => {
+	if (typeof value !== 'string' && !Array.isArray(value)) {
+		throw new TypeError(`Expected string or array, received ${typeName(value)}`);
+	}
+	return value;
+};
+
+/**
+ * Returns human-readable type name of the `value`.
+ * @internal
+ */
+const typeName = (value: unknown) => {
+	if (value === null) {
+		return 'null';
+	}
+	return Array.isArray(value) ? 'array' : typeof value;
+};
+
+/**
+ * Whitelisted expression helpers.
+ */
+export const EXPRESSION_HELPERS: Record<string, ExpressionHelper> = {
+	abs: (value) => Math.abs(number(value)),
+	min: (...values) => Math.min(...values.map(number)),
+	max: (...values) => Math.max(...values.map(number)),
+	floor: (value) => Math.floor(number(value)),
+	ceil: (value) => Math.ceil(number(value)),
+	round: (value) => Math.round(number(value)),
+	clamp: (value, min, max) => Math.min(Math.max(number(value), number(min)), number(max)),
+	len: (value) => sequence(value).length,
+	includes: (list, value) => (sequence(list) as Array<unknown>).includes(value),
+	upper: (value) => String(value).toUpperCase(),
+	lower: (value) => String(value).toLowerCase(),
+	str: (value) => String(value),
+	num: (value) => Number(value),
+};
+
+/**
+ * Sandboxed expression.
+ * Supports literals, arrays, variables, member access, arithmetic, comparison, logic,
+ * ternary operator and whitelisted helper calls.
+ * @remarks Equality operators are always strict. Missing members are resolved as `null`.
+ */
+export class Expression {
+	private tokens: Array<ExpressionToken> = [];
+	private index = 0;
+
+	/**
+	 * Expression syntax tree.
+	 */
+	public readonly tree: ExpressionNode;
+
+	/**
+	 * Parses the given `source` into an expression.
+	 * @param source - Expression source.
+	 * @param helpers - Available helper functions.
+	 */
+	constructor(
+		public readonly source: string,
+		private helpers: Record<string, ExpressionHelper> = EXPRESSION_HELPERS,
+	) {
+		this.tokens = this.tokenize(source);
+		this.tree = this.parseExpression();
+		this.expect('end');
+	}
+
+	/**
+	 * Evaluates expression against the given variables.
+	 * Variables are also available as a whole via the `vars` name.
+	 * @param vars - Expression variables.
+	 * @returns Expression value.
+	 */
+	public evaluate(vars: Record<string, unknown>) {
+		return this.evaluateNode(this.tree, vars);
+	}
+
+	/**
+	 * Splits `source` into tokens.
+	 * @internal
+	 */
+	private tokenize(source: string) {
+		const tokens: Array<ExpressionToken> = [];
+		let pos = 0;
+		while (pos < source.length) {
+			const char = source[pos]!;
+			const col = pos + 1;
+			if (/\s/.test(char)) {
+				pos++;
+				continue;
+			}
+			const numeric = /^\d+(\.\d+)?/.exec(source.slice(pos));
+			if (numeric) {
+				tokens.push({ type: 'number', value: numeric[0], col });
+				pos += numeric[0].length;
+				continue;
+			}
+			const name = /^[A-Za-z_$][\w$]*/.exec(source.slice(pos));
+			if (name) {
+				tokens.push({ type: 'name', value: name[0], col });
+				pos += name[0].length;
+				continue;
+			}
+			if (char === '"' || char === "'") {
+				let value = '';
+				pos++;
+				while (source[pos] !== char) {
+					if (pos >= source.length) {
+						throw new ExpressionError('Unterminated string', col);
+					}
+					if (source[pos] === '\\') {
+						const escaped = source[++pos] ?? '';
+						value += { n: '\n', t: '\t' }[escaped] ?? escaped;
+					} else {
+						value += source[pos];
+					}
+					pos++;
+				}
+				tokens.push({ type: 'string', value, col });
+				pos++;
+				continue;
+			}
+			const punct = PUNCTUATORS.find((punct) => source.startsWith(punct, pos));
+			if (punct) {
+				tokens.push({ type: 'punct', value: punct, col });
+				pos += punct.length;
+				continue;
+			}
+			throw new ExpressionError(`Unexpected character "${char}"`, col);
+		}
+		tokens.push({ type: 'end', value: '', col: source.length + 1 });
+		return tokens;
+	}
+
+	/**
+	 * Returns the current token.
+	 * @internal
+	 */
+	private peek() {
+		return this.tokens[this.index]!;
+	}
+
+	/**
+	 * Consumes the current token if it is a given punctuator.
+	 * @internal
+	 */
+	private match(punct: string) {
+		const token = this.peek();
+		if (token.type === 'punct' && token.value === punct) {
+			this.index++;
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Consumes the current token, throwing an error if it does not match.
+	 * @internal
+	 */
+	private expect(type: ExpressionToken['type'], value?: string) {
+		const token = this.peek();
+		if (token.type !== type || (value !== undefined && token.value !== value)) {
+			throw this.unexpected(token);
+		}
+		this.index++;
+		return token;
+	}
+
+	/**
+	 * Creates an error for the unexpected `token`.
+	 * @internal
+	 */
+	private unexpected(token: ExpressionToken) {
+		if (token.type === 'end') {
+			return new ExpressionError('Unexpected end of expression', token.col);
+		}
+		return new ExpressionError(`Unexpected token "${token.value}"`, token.col);
+	}
+
+	/**
+	 * Parses conditional (ternary) expression.
+	 * @internal
+	 */
+	private parseExpression(): ExpressionNode {
+		const test = this.parseBinary(0);
+		if (!this.match('?')) {
+			return test;
+		}
+		const consequent = this.parseExpression();
+		this.expect('punct', ':');
+		const alternate = this.parseExpression();
+		return {
+			type: 'conditional',
+			test,
+			then: consequent,
+			else: alternate,
+			col: test.col,
+		};
+	}
+
+	/**
+	 * Parses binary expression using precedence climbing.
+	 * @internal
+	 */
+	private parseBinary(minPrecedence: number): ExpressionNode {
+		let left = this.parseUnary();
+		for (;;) {
+			const token = this.peek();
+			const precedence = token.type === 'punct' ? PRECEDENCE[token.value] : undefined;
+			if (precedence === undefined || precedence < minPrecedence) {
+				return left;
+			}
+			this.index++;
+			const right = this.parseBinary(precedence + 1);
+			left = { type: 'binary', operator: token.value, left, right, col: token.col };
+		}
+	}
+
+	/**
+	 * Parses unary expression.
+	 * @internal
+	 */
+	private parseUnary(): ExpressionNode {
+		const token = this.peek();
+		if (token.type === 'punct' && ['!', '-', '+'].includes(token.value)) {
+			this.index++;
+			const argument = this.parseUnary();
+			return { type: 'unary', operator: token.value, argument, col: token.col };
+		}
+		return this.parsePostfix();
+	}
+
+	/**
+	 * Parses member access chain.
+	 * @internal
+	 */
+	private parsePostfix(): ExpressionNode {
+		let node = this.parsePrimary();
+		for (;;) {
+			const token = this.peek();
+			if (this.match('.')) {
+				const name = this.expect('name');
+				const property = { type: 'literal', value: name.value, col: name.col } as const;
+				node = { type: 'member', object: node, property, col: token.col };
+			} else if (this.match('[')) {
+				const property = this.parseExpression();
+				this.expect('punct', ']');
+				node = { type: 'member', object: node, property, col: token.col };
+			} else {
+				return node;
+			}
+		}
+	}
+
+	/**
+	 * Parses primary expression.
+	 * @internal
+	 */
+	private parsePrimary(): ExpressionNode {
+		const token = this.peek();
+		const col = token.col;
+		this.index++;
+		switch (token.type) {
+			case 'number': {
+				return { type: 'literal', value: parseFloat(token.value), col };
+			}
+			case 'string': {
+				return { type: 'literal', value: token.value, col };
+			}
+			case 'name': {
+				if (token.value in KEYWORDS) {
+					return { type: 'literal', value: KEYWORDS[token.value], col };
+				}
+				if (!this.match('(')) {
+					return { type: 'variable', name: token.value, col };
+				}
+				if (!Object.prototype.hasOwnProperty.call(this.helpers, token.value)) {
+					throw new ExpressionError(`Unknown function "${token.value}"`, col);
+				}
+				const args = this.parseList(')');
+				return { type: 'call', name: token.value, args, col };
+			}
+			case 'punct': {
+				if (token.value === '(') {
+					const node = this.parseExpression();
+					this.expect('punct', ')');
+					return node;
+				}
+				if (token.value === '[') {
+					const items = this.parseList(']');
+					return { type: 'array', items, col };
+				}
+				break;
+			}
+		}
+		throw this.unexpected(token);
+	}
+
+	/**
+	 * Parses comma-separated list of expressions until the `end` punctuator.
+	 * @internal
+	 */
+	private parseList(end: string) {
+		const items: Array<ExpressionNode> = [];
+		while (!this.match(end)) {
+			if (items.length > 0) {
+				this.expect('punct', ',');
+			}
+			items.push(this.parseExpression());
+		}
+		return items;
+	}
+
+	/**
+	 * Evaluates the given syntax tree `node`.
+	 * @internal
+	 */
+	private evaluateNode(node: ExpressionNode, vars: Record<string, unknown>): unknown {
+		const evaluate = (node: ExpressionNode) => this.evaluateNode(node, vars);
+		try {
+			switch (node.type) {
+				case 'literal': {
+					return node.value;
+				}
+				case 'array': {
+					return node.items.map(evaluate);
+				}
+				case 'variable': {
+					if (node.name === 'vars') {
+						return vars;
+					}
+					if (!Object.prototype.hasOwnProperty.call(vars, node.name)) {
+						throw new ExpressionError(`Unknown variable "${node.name}"`, node.col);
+					}
+					return vars[node.name];
+				}
+				case 'member': {
+					const object = evaluate(node.object);
+					const property = evaluate(node.property);
+					if (typeof property !== 'string' && typeof property !== 'number') {
+						const text = `Invalid property type: ${typeName(property)}`;
+						throw new ExpressionError(text, node.property.col);
+					}
+					if (object === null || object === undefined) {
+						const text = `Unable to read "${property}" of ${typeName(object)}`;
+						throw new ExpressionError(text, node.col);
+					}
+					if (!Object.prototype.hasOwnProperty.call(object, property)) {
+						return null;
+					}
+					return (object as Record<string | number, unknown>)[property];
+				}
+				case 'call': {
+					const args = node.args.map(evaluate);
+					return this.helpers[node.name]!(...args);
+				}
+				case 'unary': {
+					const value = evaluate(node.argument);
+					switch (node.operator) {
+						case '!':
+							return !value;
+						case '-':
+							return -number(value);
+						default:
+							return +number(value);
+					}
+				}
+				case 'binary': {
+					return this.evaluateBinary(node.operator, node.left, node.right, vars);
+				}
+				case 'conditional': {
+					return evaluate(node.test) ? evaluate(node.then) : evaluate(node.else);
+				}
+			}
+		} catch (err: any) {
+			if (err instanceof ExpressionError) {
+				throw err;
+			}
+			throw new ExpressionError(err.message ?? `${err}`, node.col);
+		}
+	}
+
+	/**
+	 * Evaluates binary operation.
+	 * @internal
+	 */
+	private evaluateBinary(
+		operator: string,
+		leftNode: ExpressionNode,
+		rightNode: ExpressionNode,
+		vars: Record<string, unknown>,
+	) {
+		const left = this.evaluateNode(leftNode, vars);
+		switch (operator) {
+			case '&&':
+				return left ? this.evaluateNode(rightNode, vars) : left;
+			case '||':
+				return left ? left : this.evaluateNode(rightNode, vars);
+			case '??':
+				return left ?? this.evaluateNode(rightNode, vars);
+		}
+		const right = this.evaluateNode(rightNode, vars);
+		switch (operator) {
+			case '==':
+			case '===':
+				return left === right;
+			case '!=':
+			case '!==':
+				return left !== right;
+			case '+':
+				if (typeof left === 'string' || typeof right === 'string') {
+					return `${left}${right}`;
+				}
+				return number(left) + number(right);
+			case '-':
+				return number(left) - number(right);
+			case '*':
+				return number(left) * number(right);
+			case '/':
+				return number(left) / number(right);
+			case '%':
+				return number(left) % number(right);
+		}
+		if (typeof left === 'string' && typeof right === 'string') {
+			return this.compare(operator, left, right);
+		}
+		return this.compare(operator, number(left), number(right));
+	}
+
+	/**
+	 * Compares two values of the same type.
+	 * @internal
+	 */
+	private compare<T extends string | number>(operator: string, left: T, right: T) {
+		switch (operator) {
+			case '<':
+				return left < right;
+			case '<=':
+				return left <= right;
+			case '>':
+				return left > right;
+			default:
+				return left >= right;
+		}
+	}
+}
@@ -0,0 +1,76 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { describe, it, expect } from 'vitest';
+import { Graph } from './graph';
+import { Script, ScriptSource } from './script';
+
+const source: ScriptSource = [
+	{ label: 'start' },
+	{
+		menu: {
+			'Go "left"': [{ jump: 'left' }],
+			'Go right': [{ set: { name: 'right', value: true } }],
+		},
+	},
+	{ if: { cond: Script.exp('right'), then: [{ jump: 'right' }] } },
+	{ label: 'left' },
+	{ return: null },
+	{ label: 'right' },
+];
+
+describe('Graph', () => {
+	it('converts source into a graph', () => {
+		const graph = Graph.from(source);
+		expect(graph.nodes).toEqual([
+			{ id: 'n0', type: 'start', label: 'Start', path: [] },
+			{ id: 'n1', type: 'label', label: 'start', path: [0] },
+			{ id: 'n2', type: 'choice', label: 'Go "left"', path: [1, 'menu', 'Go "left"'] },
+			{ id: 'n3', type: 'label', label: 'left', path: [3] },
+			{ id: 'n4', type: 'choice', label: 'Go right', path: [1, 'menu', 'Go right'] },
+			{ id: 'n5', type: 'label', label: 'right', path: [5] },
+			{ id: 'n6', type: 'end', label: 'End', path: [6] },
+		]);
+		expect(graph.edges).toEqual([
+			{ from: 'n0', to: 'n1', type: 'next' },
+			{ from: 'n1', to: 'n2', type: 'pick', label: 'Go "left"' },
+			{ from: 'n2', to: 'n3', type: 'jump' },
+			{ from: 'n1', to: 'n4', type: 'pick', label: 'Go right' },
+			{ from: 'n4', to: 'n5', type: 'jump', label: 'right' },
+			{ from: 'n4', to: 'n3', type: 'next', label: '!(right)' },
+			{ from: 'n5', to: 'n6', type: 'next' },
+		]);
+	});
+
+	it('skips dynamic jump targets', () => {
+		const graph = Graph.from([
+			{ jump: Script.exp('target') },
+			{ call: Script.fmt('{{ target }}') },
+			{ label: 'a' },
+		]);
+		expect(graph.nodes.map(({ label }) => label)).toEqual(['Start', 'a', 'End']);
+		expect(graph.edges).toEqual([{ from: 'n1', to: 'n2', type: 'next' }]);
+	});
+
+	it('exports Mermaid and DOT', () => {
+		const graph = Graph.from([{ label: 'a' }, { jump: 'a' }]);
+		expect(graph.toMermaid()).toBe(
+			['flowchart TD', '\tn0(["Start"])', '\tn1["a"]', '\tn0 --> n1', '\tn1 ==> n1'].join(
+				'\n',
+			),
+		);
+		expect(graph.toDot()).toBe(
+			[
+				'digraph story {',
+				'\tn0 [label="Start", shape=oval];',
+				'\tn1 [label="a", shape=box];',
+				'\tn0 -> n1 [style=solid];',
+				'\tn1 -> n1 [style=bold];',
+				'}',
+			].join('\n'),
+		);
+		const quoted = Graph.from([{ menu: { 'Say "hi"': [] } }]);
+		expect(quoted.toMermaid()).toContain('n0 -->|"Say #quot;hi#quot;"| n1');
+		expect(quoted.toDot()).toContain('n0 -> n1 [style=solid, label="Say \\"hi\\""];');
+	});
+});
@@ -0,0 +1,290 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { isPlainObject, isArray, isEqual, uniqWith } from 'lodash';
+import { ScriptExp, ScriptFmt, ScriptNode, ScriptPath, ScriptSource } from './script';
+
+/**
+ * Graph node.
+ * Represents either the script start, a label, a menu choice or the script end.
+ */
+// prettier-ignore
+export type GraphNode = {
+	id: string;
+	type: 'start' | 'label' | 'choice' | 'end';
+	label: string;
+	path: ScriptPath;
+};
+
+/**
+ * Graph edge.
+ * Conditional edges carry their conditions in the label.
+ */
+// prettier-ignore
+export type GraphEdge = {
+	from: string;
+	to: string;
+	type: 'next' | 'jump' | 'call' | 'pick';
+	label?: string;
+};
+
+/**
+ * Graph edge source.
+ * Node the execution may currently come from, with conditions met along the way.
+ * @internal
+ */
+// prettier-ignore
+type GraphOrigin = {
+	id: string;
+	conds: Array<string>;
+};
+
+/**
+ * Story graph.
+ * Built statically, so every branch is assumed to be possible.
+ */
+export class Graph {
+	public readonly nodes: Array<GraphNode> = [];
+	public readonly edges: Array<GraphEdge> = [];
+	private labels = new Map<string, string>();
+
+	/**
+	 * Builds a graph of the given `source`.
+	 * @param source - Source to convert.
+	 * @returns Story graph.
+	 */
+	static from(source: ScriptSource) {
+		const graph = new Graph();
+		const start = graph.node('start', 'Start', []);
+		const open = graph.block(source, [], [{ id: start, conds: [] }]);
+		if (open.length) {
+			graph.connect(open, graph.node('end', 'End', [source.length]), 'next');
+		}
+		return graph;
+	}
+
+	/**
+	 * Converts graph into a Mermaid flowchart.
+	 * @returns Mermaid source.
+	 */
+	public toMermaid() {
+		const text = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+		const shapes: Record<GraphNode['type'], [string, string]> = {
+			start: ['([', '])'],
+			label: ['[', ']'],
+			choice: ['(', ')'],
+			end: ['([', '])'],
+		};
+		const arrows: Record<GraphEdge['type'], string> = {
+			next: '-->',
+			jump: '==>',
+			call: '-.->',
+			pick: '-->',
+		};
+		const lines = ['flowchart TD'];
+		for (const { id, type, label } of this.nodes) {
+			const [open, close] = shapes[type];
+			lines.push(`\t${id}${open}${text(label)}${close}`);
+		}
+		for (const { from, to, type, label } of this.edges) {
+			const arrow = arrows[type];
+			lines.push(
+				label ? `\t${from} ${arrow}|${text(label)}| ${to}` : `\t${from} ${arrow} ${to}`,
+			);
+		}
+		return lines.join('\n');
+	}
+
+	/**
+	 * Converts graph into a Graphviz DOT digraph.
+	 * @returns DOT source.
+	 */
+	public toDot() {
+		const text = (text: string) =>
+			`"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+		const shapes: Record<GraphNode['type'], string> = {
+			start: 'oval',
+			label: 'box',
+			choice: 'box, style=rounded',
+			end: 'oval',
+		};
+		const styles: Record<GraphEdge['type'], string> = {
+			next: 'solid',
+			jump: 'bold',
+			call: 'dashed',
+			pick: 'solid',
+		};
+		const lines = ['digraph story {'];
+		for (const { id, type, label } of this.nodes) {
+			lines.push(`\t${id} [label=${text(label)}, shape=${shapes[type]}];`);
+		}
+		for (const { from, to, type, label } of this.edges) {
+			const attrs = [`style=${styles[type]}`, ...(label ? [`label=${text(label)}`] : [])];
+			lines.push(`\t${from} -> ${to} [${attrs.join(', ')}];`);
+		}
+		lines.push('}');
+		return lines.join('\n');
+	}
+
+	/**
+	 * Adds graph nodes and edges of the given code `block`.
+	 * @param block - Block to process.
+	 * @param path - Block path.
+	 * @param open - Origins entering the block.
+	 * @returns Origins leaving the block.
+	 * @internal
+	 */
+	protected block(block: ScriptSource, path: ScriptPath, open: Array<GraphOrigin>) {
+		block.forEach((node, index) => {
+			const nodePath = [...path, index];
+			if (!isPlainObject(node) || Object.keys(node as object).length !== 1) {
+				return;
+			}
+			const [type, args] = Object.entries(node as Record<string, ScriptNode>)[0]!;
+			switch (type) {
+				case 'label': {
+					const id = this.label(String(args), nodePath);
+					this.connect(open, id, 'next');
+					open = [{ id, conds: [] }];
+					break;
+				}
+				case 'jump':
+				case 'call': {
+					const dynamic = args instanceof ScriptExp || args instanceof ScriptFmt;
+					const target = dynamic ? null : String(args);
+					if (target !== null) {
+						this.connect(open, this.label(target), type);
+					}
+					open = type === 'jump' ? [] : open;
+					break;
+				}
+				case 'return':
+				case 'throw': {
+					open = [];
+					break;
+				}
+				case 'if': {
+					const cond = this.text(this.field(args, 'cond'));
+					const then = this.code(this.field(args, 'then'));
+					const otherwise = this.code(this.field(args, 'else'));
+					open = [
+						...this.block(then, [...nodePath, type, 'then'], this.when(open, cond)),
+						...this.block(
+							otherwise,
+							[...nodePath, type, 'else'],
+							this.when(open, `!(${cond})`),
+						),
+					];
+					break;
+				}
+				case 'while':
+				case 'repeat':
+				case 'each': {
+					const body = this.code(this.field(args, 'do'));
+					open = uniqWith(
+						[...open, ...this.block(body, [...nodePath, type, 'do'], open)],
+						isEqual,
+					);
+					break;
+				}
+				case 'menu': {
+					if (isPlainObject(args)) {
+						const choices = Object.entries(args as Record<string, ScriptNode>);
+						open = choices.flatMap(([choice, code]) => {
+							const choicePath = [...nodePath, type, choice];
+							const id = this.node('choice', choice, choicePath);
+							this.connect(open, id, 'pick', choice);
+							return isArray(code)
+								? this.block(code, choicePath, [{ id, conds: [] }])
+								: [];
+						});
+					}
+					break;
+				}
+			}
+		});
+		return open;
+	}
+
+	/**
+	 * Adds a new node.
+	 * @returns Node ID.
+	 * @internal
+	 */
+	protected node(type: GraphNode['type'], label: string, path: ScriptPath) {
+		const id = `n${this.nodes.length}`;
+		this.nodes.push({ id, type, label, path });
+		return id;
+	}
+
+	/**
+	 * Returns node of the given `label`, adding it if needed.
+	 * Labels referenced before their definition get their path once defined.
+	 * @returns Node ID.
+	 * @internal
+	 */
+	protected label(label: string, path?: ScriptPath) {
+		const known = this.labels.get(label);
+		if (known) {
+			const node = this.nodes.find((node) => node.id === known)!;
+			node.path = path ?? node.path;
+			return known;
+		}
+		const id = this.node('label', label, path ?? []);
+		this.labels.set(label, id);
+		return id;
+	}
+
+	/**
+	 * Connects all the `open` origins to the given node, skipping duplicate edges.
+	 * @internal
+	 */
+	protected connect(
+		open: Array<GraphOrigin>,
+		to: string,
+		type: GraphEdge['type'],
+		label?: string,
+	) {
+		for (const { id, conds } of open) {
+			const text = [label, ...conds].filter(Boolean).join(' & ');
+			const edge: GraphEdge = { from: id, to, type, ...(text ? { label: text } : {}) };
+			if (!this.edges.some((known) => isEqual(known, edge))) {
+				this.edges.push(edge);
+			}
+		}
+	}
+
+	/**
+	 * Adds the given condition to all the `open` origins.
+	 * @internal
+	 */
+	protected when(open: Array<GraphOrigin>, cond: string) {
+		return open.map(({ id, conds }) => ({ id, conds: [...conds, cond] }));
+	}
+
+	/**
+	 * Returns field of the given command arguments (if they are an object).
+	 * @internal
+	 */
+	protected field(args: ScriptNode, name: string): ScriptNode {
+		return isPlainObject(args)
+			? (args as Record<string, ScriptNode>)[name] ?? null
+			: null;
+	}
+
+	/**
+	 * Returns the given node as a code block (empty unless it is one).
+	 * @internal
+	 */
+	protected code(node: ScriptNode): ScriptSource {
+		return isArray(node) ? node : [];
+	}
+
+	/**
+	 * Converts condition into text.
+	 * @internal
+	 */
+	protected text(cond: ScriptNode) {
+		return cond instanceof ScriptExp ? cond.exp : JSON.stringify(cond ?? null);
+	}
+}
@@ -1,3 +1,9 @@
+export * from './explorer';
+export * from './expression';
+export * from './graph';
+export * from './linter';
 export * from './parser';
+export * from './runner';
+export * from './scope';
 export * from './script';
 export * from './scene';
@@ -0,0 +1,81 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { describe, it, expect } from 'vitest';
+import { Linter } from './linter';
+import { Script, ScriptSource } from './script';
+import { Scene } from './scene';
+
+const lint = (source: ScriptSource, script = new Script(source)) => {
+	return new Linter(script).lint(source);
+};
+
+describe('Linter', () => {
+	it('accepts valid scripts', () => {
+		const source: ScriptSource = [
+			{ label: 'start' },
+			{ set: { name: 'a', value: Script.exp('1 + 1') } },
+			{ if: { cond: Script.exp('a > 1'), then: [{ jump: 'end' }] } },
+			{ print: Script.fmt('{{ a }}') },
+			{ label: 'end' },
+		];
+		expect(lint(source)).toEqual([]);
+	});
+
+	it('checks commands against their schemas', () => {
+		const source: ScriptSource = [
+			{ prnt: 'Hello!' },
+			{ print: 1 },
+			{ print: 'a', throw: 'b' },
+			{ set: { name: 'a', value: Script.exp('vars.b') } },
+		];
+		expect(lint(source)).toEqual([
+			{ message: 'Unknown command: prnt', severity: 'error', path: [0] },
+			{ message: 'Expected string, received number', severity: 'error', path: [1] },
+			{
+				message: 'Invalid command: {"print":"a","throw":"b"}',
+				severity: 'error',
+				path: [2],
+			},
+		]);
+	});
+
+	it('checks labels', () => {
+		const source: ScriptSource = [
+			{ label: 'a' },
+			{ repeat: { times: 2, do: [{ label: 'a' }, { call: 'b' }] } },
+			{ jump: Script.exp('"c"') },
+		];
+		expect(lint(source)).toEqual([
+			{ message: 'Label "a" is defined more than once', severity: 'error', path: [0] },
+			{
+				message: 'Label "a" is defined more than once',
+				severity: 'error',
+				path: [1, 'repeat', 'do', 0],
+			},
+			{
+				message: 'Label "b" is not found',
+				severity: 'error',
+				path: [1, 'repeat', 'do', 1],
+			},
+		]);
+	});
+
+	it('flags unreachable code', () => {
+		const source: ScriptSource = [
+			{ jump: 'a' },
+			{ print: 'A' },
+			{ print: 'B' },
+			{ label: 'a' },
+			{ menu: { Option: [{ throw: 'Oops!' }, { print: 'C' }] } },
+		];
+		expect(lint(source, new Scene(source))).toEqual([
+			{ message: 'Unreachable code', severity: 'warning', path: [1] },
+			{
+				message: 'Unreachable code',
+				severity: 'warning',
+				path: [4, 'menu', 'Option', 1],
+			},
+		]);
+	});
+});
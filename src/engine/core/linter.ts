@@ -0,0 +1,188 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import traverse from 'traverse';
+import { fromZodError } from 'zod-validation-error';
+import { get, isPlainObject, isArray } from 'lodash';
+import {
+	Script,
+	ScriptExp,
+	ScriptFmt,
+	ScriptNode,
+	ScriptPath,
+	ScriptSource,
+} from './script';
+import { ParserContext, ParserDiagnostic } from './parser';
+
+/**
+ * Linter issue.
+ */
+// prettier-ignore
+export type LinterIssue = {
+	message: string;
+	severity: 'error' | 'warning';
+	path: ScriptPath;
+};
+
+/**
+ * Commands that never pass execution to the next node of their block.
+ * @internal
+ */
+export const LINTER_TERMINATORS = ['jump', 'return', 'throw'];
+
+/**
+ * Static script linter.
+ * Checks commands against definitions of the given script without executing them.
+ */
+export class Linter {
+	constructor(private script: Script) {
+		return;
+	}
+
+	/**
+	 * Lints the given `source`.
+	 * @param source - Source to lint.
+	 * @returns Found issues, in source order.
+	 */
+	public lint(source: ScriptSource) {
+		const issues: Array<LinterIssue> = [];
+		const labels = this.labels(source);
+		for (const [label, paths] of labels) {
+			if (paths.length > 1) {
+				for (const path of paths) {
+					const message = `Label "${label}" is defined more than once`;
+					issues.push({ message, severity: 'error', path });
+				}
+			}
+		}
+		this.block(source, [], labels, issues);
+		return issues.sort((a, b) => this.compare(a.path, b.path));
+	}
+
+	/**
+	 * Converts issues into parser diagnostics, mapping their paths to code positions.
+	 * @param issues - Issues to convert.
+	 * @param context - Parser context of the source.
+	 * @param key - Source key within the parsed document.
+	 * @returns Diagnostics.
+	 */
+	static diagnose(
+		issues: Array<LinterIssue>,
+		context?: Pick<ParserContext, 'trace' | 'excerpt'>,
+		key = 'script',
+	) {
+		return issues.map(({ message, severity, path }): ParserDiagnostic => {
+			const pos = context?.trace([key, ...path]);
+			const excerpt = pos && context?.excerpt(pos);
+			return { message, severity, pos, excerpt };
+		});
+	}
+
+	/**
+	 * Lints the given code `block`.
+	 * @param block - Block to lint.
+	 * @param path - Block path.
+	 * @param labels - Known labels.
+	 * @param issues - Found issues.
+	 * @internal
+	 */
+	protected block(
+		block: ScriptSource,
+		path: ScriptPath,
+		labels: Map<string, Array<ScriptPath>>,
+		issues: Array<LinterIssue>,
+	) {
+		let reachable = true;
+		block.forEach((node, index) => {
+			const nodePath = [...path, index];
+			const report = (message: string, severity: LinterIssue['severity'] = 'error') => {
+				issues.push({ message, severity, path: nodePath });
+			};
+
+			if (!isPlainObject(node) || Object.keys(node as object).length !== 1) {
+				report(`Invalid command: ${JSON.stringify(node)}`);
+				return;
+			}
+			const [type, args] = Object.entries(node as object)[0]!;
+			if (type === 'label') {
+				reachable = true;
+			} else if (!reachable) {
+				report('Unreachable code', 'warning');
+				reachable = true;
+			}
+			if (LINTER_TERMINATORS.includes(type)) {
+				reachable = false;
+			}
+
+			const command = this.script.getCommand(type);
+			if (!command) {
+				report(`Unknown command: ${type}`);
+				return;
+			}
+			if (command.mode !== 'raw' && this.isDynamic(args)) {
+				return;
+			}
+			const validation = command.schema.safeParse(args);
+			if (!validation.success) {
+				report(fromZodError(validation.error, { prefix: null }).message);
+				return;
+			}
+			if (['jump', 'call'].includes(type) && !labels.has(args)) {
+				report(`Label "${args}" is not found`);
+			}
+			for (const blockPath of command.blocks?.(args) ?? []) {
+				const child = get(args, blockPath);
+				if (isArray(child)) {
+					this.block(child, [...nodePath, type, ...blockPath], labels, issues);
+				}
+			}
+		});
+	}
+
+	/**
+	 * Collects label definitions of the given `source`.
+	 * @param source - Source to search.
+	 * @returns Label paths, keyed by label.
+	 * @internal
+	 */
+	protected labels(source: ScriptSource) {
+		const labels = new Map<string, Array<ScriptPath>>();
+		traverse(source).forEach(function (node) {
+			if (isPlainObject(node) && Object.keys(node).length === 1) {
+				const label = node.label;
+				if (typeof label === 'string') {
+					const path = this.path.map((key) => (/^\d+$/.test(key) ? parseInt(key) : key));
+					labels.set(label, [...(labels.get(label) ?? []), path]);
+				}
+			}
+		});
+		return labels;
+	}
+
+	/**
+	 * Checks if the given value has to be evaluated before validation.
+	 * @param value - Value to check.
+	 * @returns Boolean indicating whether value contains expressions or templates.
+	 * @internal
+	 */
+	protected isDynamic(value: ScriptNode) {
+		return traverse(value).reduce(function (acc, node) {
+			return acc || node instanceof ScriptExp || node instanceof ScriptFmt;
+		}, false);
+	}
+
+	/**
+	 * Compares node paths in source order.
+	 * @internal
+	 */
+	protected compare(a: ScriptPath, b: ScriptPath): number {
+		for (let i = 0; i < Math.min(a.length, b.length); i++) {
+			if (a[i] !== b[i]) {
+				return typeof a[i] === 'number' && typeof b[i] === 'number'
+					? (a[i] as number) - (b[i] as number)
+					: 0;
+			}
+		}
+		return a.length - b.length;
+	}
+}
@@ -0,0 +1,85 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import zod from 'zod';
+import { describe, it, expect } from 'vitest';
+import { Parser } from './parser';
+
+const schema = zod.object({
+	script: zod.array(zod.object({ print: zod.string() })),
+});
+
+describe('Parser', () => {
+	it('traces node paths', () => {
+		const parser = new Parser();
+		const context = parser.parse('script:\n  - print: A\n  - print: B\n', 'main.yml');
+		expect(context.parse(schema)).toEqual({ script: [{ print: 'A' }, { print: 'B' }] });
+		expect(context.trace(['script', 1])).toEqual({ line: 3, col: 5, file: 'main.yml' });
+	});
+
+	it('implements includes', () => {
+		const parser = new Parser();
+		const main = parser.parse('script:\n  - print: A\n', 'main.yml');
+		const part = parser.parse('script:\n  - print: B\n  - print: C\n', 'part.yml');
+		const context = main.include(part, 'script', (script) => script.reverse());
+		expect(context.parse(schema)).toEqual({
+			script: [{ print: 'A' }, { print: 'C' }, { print: 'B' }],
+		});
+		expect(context.trace(['script', 0])).toEqual({ line: 2, col: 5, file: 'main.yml' });
+		expect(context.trace(['script', 2, 'print'])).toEqual({
+			line: 3,
+			col: 12,
+			file: 'part.yml',
+		});
+		expect(main.parse(schema)).toEqual({ script: [{ print: 'A' }] });
+	});
+
+	it('reports errors with file positions', () => {
+		const parser = new Parser();
+		const main = parser.parse('script:\n  - print: A\n', 'main.yml');
+		const part = parser.parse('script:\n  - print: 1\n', 'part.yml');
+		expect(() => main.include(part, 'script').parse(schema)).toThrowError(
+			expect.objectContaining({
+				name: 'ParserError',
+				pos: { line: 2, col: 12, file: 'part.yml' },
+			}),
+		);
+	});
+
+	it('collects all diagnostics', () => {
+		const parser = new Parser();
+		const source = 'script:\n  - print: 1\n  - print: B\n  - print: true\n';
+		const context = parser.parse(source, 'main.yml');
+		expect(context.diagnose(schema)).toEqual([
+			{
+				message: 'Expected string, received number at "script[0].print"',
+				severity: 'error',
+				pos: { line: 2, col: 12, file: 'main.yml' },
+				excerpt: { start: 1, lines: ['script:', '  - print: 1', '  - print: B'] },
+			},
+			{
+				message: 'Expected string, received boolean at "script[2].print"',
+				severity: 'error',
+				pos: { line: 4, col: 12, file: 'main.yml' },
+				excerpt: { start: 3, lines: ['  - print: B', '  - print: true', ''] },
+			},
+		]);
+		expect(() => context.parse(schema)).toThrowError(
+			expect.objectContaining({
+				message: 'Expected string, received number at "script[0].print"',
+				diagnostics: context.diagnose(schema),
+			}),
+		);
+	});
+
+	it('collects YAML errors of included files', () => {
+		const parser = new Parser();
+		const main = parser.parse('script:\n  - print: A\n', 'main.yml');
+		const part = parser.parse('script: [\n', 'part.yml');
+		const diagnostics = main.include(part, 'script').diagnose(schema);
+		expect(diagnostics.length).toBeGreaterThan(0);
+		expect(diagnostics.every((diagnostic) => diagnostic.pos?.file === 'part.yml')).toBe(
+			true,
+		);
+	});
+});
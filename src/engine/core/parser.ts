@@ -3,9 +3,52 @@
  */
 import zod, { ZodType } from 'zod';
 import { fromZodIssue } from 'zod-validation-error';
-import { parseDocument, isNode, Tags, LineCounter, Document } from 'yaml';
+import { parseDocument, isNode, isSeq, Tags, LineCounter, Document } from 'yaml';
+import { identity } from 'lodash';
 import { Script } from './script';
 
+/**
+ * Parser source code position.
+ */
+// prettier-ignore
+export type ParserPosition = {
+	line: number;
+	col: number;
+	file?: string;
+};
+
+/**
+ * Parser source code excerpt.
+ */
+// prettier-ignore
+export type ParserExcerpt = {
+	start: number;
+	lines: Array<string>;
+};
+
+/**
+ * Parser diagnostic.
+ * Describes a single YAML error or warning, or a schema validation issue.
+ */
+// prettier-ignore
+export type ParserDiagnostic = {
+	message: string;
+	severity: 'error' | 'warning';
+	pos?: ParserPosition;
+	excerpt?: ParserExcerpt;
+};
+
+/**
+ * Parser context inclusion.
+ * @internal
+ */
+// prettier-ignore
+export type ParserInclude = {
+	key: string;
+	context: ParserContext;
+	transform: (data: Array<unknown>) => Array<unknown>;
+};
+
 /**
  * Parser error.
  */
@@ -13,7 +56,11 @@ export class ParserError extends Error {
 	public override name = 'ParserError';
 
 	// prettier-ignore
-	constructor(message: string, public pos?: { line: number, col: number }) {
+	constructor(
+		message: string,
+		public pos?: ParserPosition,
+		public diagnostics: Array<ParserDiagnostic> = [],
+	) {
 		super(message);
 	}
 }
@@ -24,46 +71,173 @@ export class ParserError extends Error {
  */
 export class ParserContext {
 	// prettier-ignore
-	constructor(private doc: Document, private lineCounter: LineCounter) {
+	constructor(
+		private doc: Document,
+		private lineCounter: LineCounter,
+		private text: string,
+		public readonly file?: string,
+		private includes: Array<ParserInclude> = [],
+	) {
 		return;
 	}
 
+	/**
+	 * Creates a new context with array `key` of the given `context` appended to this one.
+	 * @param context - Context to include.
+	 * @param key - Top-level array key to append.
+	 * @param transform - Transformation applied to the included array (optional).
+	 * @returns Context with inclusion.
+	 */
+	public include(
+		context: ParserContext,
+		key: string,
+		transform: ParserInclude['transform'] = identity,
+	) {
+		const includes = [...this.includes, { key, context, transform }];
+		return new ParserContext(this.doc, this.lineCounter, this.text, this.file, includes);
+	}
+
 	/**
 	 * Converts node path into its location in source code.
+	 * Paths pointing to the included data are traced in the corresponding context.
 	 * @param path - Path to trace.
-	 * @returns Code line and column.
+	 * @returns Code line, column and file.
 	 */
-	public trace(path: Array<string | number>) {
+	public trace(path: Array<string | number>): ParserPosition | undefined {
+		const [key, index, ...rest] = path;
+		let offset = this.size(key!);
+		if (typeof index === 'number' && index >= offset) {
+			for (const include of this.includes.filter((include) => include.key === key)) {
+				const size = include.context.size(key!);
+				if (index < offset + size) {
+					return include.context.trace([key!, index - offset, ...rest]);
+				}
+				offset = offset + size;
+			}
+		}
 		const node = this.doc.getIn(path, true);
 		if (isNode(node) && node.range) {
-			return this.lineCounter.linePos(node.range[0]);
+			return { ...this.lineCounter.linePos(node.range[0]), file: this.file };
+		} else {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Returns source code lines around the given position.
+	 * Position file is used to pick the corresponding included context.
+	 * @param pos - Position to excerpt.
+	 * @param radius - Number of lines to include before and after the position.
+	 * @returns Excerpt, if position is found.
+	 */
+	public excerpt(pos: ParserPosition, radius = 1): ParserExcerpt | undefined {
+		const contexts = [this, ...this.includes.map((include) => include.context)];
+		const context = contexts.find((context) => context.file === pos.file);
+		if (context) {
+			const start = Math.max(1, pos.line - radius);
+			const lines = context.text.split(/\r?\n/).slice(start - 1, pos.line + radius);
+			return { start, lines };
 		} else {
 			return undefined;
 		}
 	}
 
+	/**
+	 * Returns own length of the top-level array `key`.
+	 * @param key - Key to check.
+	 * @returns Array length (zero if there is none).
+	 * @internal
+	 */
+	protected size(key: string | number) {
+		const node = this.doc.getIn([key], true);
+		return isSeq(node) ? node.items.length : 0;
+	}
+
+	/**
+	 * Converts document into JS, appending included data.
+	 * Data is not validated, use `parse` or `diagnose` for that.
+	 * @returns Document data.
+	 */
+	public toJS() {
+		const data = this.doc.toJS();
+		for (const { key, context, transform } of this.includes) {
+			const own = data?.[key];
+			const included = context.doc.toJS()?.[key];
+			if (Array.isArray(own) && Array.isArray(included)) {
+				data[key] = [...own, ...transform(included)];
+			}
+		}
+		return data;
+	}
+
+	/**
+	 * Collects every YAML error, YAML warning and schema issue of the context.
+	 * Included contexts are diagnosed as well.
+	 * @param schema - Target schema.
+	 * @returns Diagnostics (empty if context is valid).
+	 */
+	public diagnose<T extends ZodType>(schema: T) {
+		return this.validate(schema).diagnostics;
+	}
+
 	/**
 	 * Validates context using given schema and returns its data.
 	 * @param schema - Target schema.
 	 * @returns Parsed data.
+	 * @throws ParserError - Containing the first error and all the diagnostics.
 	 */
 	public parse<T extends ZodType>(schema: T) {
-		if (this.doc.errors.length) {
-			const err = this.doc.errors[0]!;
-			const pos = this.lineCounter.linePos(err.pos[0]);
-			const msg = (err.message.split('at line')[0] || err.message).trim();
-			throw new ParserError(msg, pos);
-		}
-		const validation = schema.safeParse(this.doc.toJS());
-		if (!validation.success) {
-			const iss = validation.error.issues[0]!;
-			const pos = this.trace(iss.path);
-			const msg = fromZodIssue(iss, { prefix: null }).message;
-			throw new ParserError(msg, pos);
+		const { validation, diagnostics } = this.validate(schema);
+		const error = diagnostics.find((diagnostic) => diagnostic.severity === 'error');
+		if (error || !validation.success) {
+			throw new ParserError(
+				error?.message ?? 'Invalid document',
+				error?.pos,
+				diagnostics,
+			);
 		} else {
 			return validation.data as zod.infer<T>;
 		}
 	}
+
+	/**
+	 * Validates context using given schema.
+	 * @param schema - Target schema.
+	 * @returns Validation result and diagnostics.
+	 * @internal
+	 */
+	protected validate<T extends ZodType>(schema: T) {
+		const diagnostics: Array<ParserDiagnostic> = [];
+		const report = (diagnostic: ParserDiagnostic) => {
+			const excerpt = diagnostic.pos && this.excerpt(diagnostic.pos);
+			diagnostics.push(excerpt ? { ...diagnostic, excerpt } : diagnostic);
+		};
+		for (const context of [this, ...this.includes.map((include) => include.context)]) {
+			const issues = [
+				...context.doc.errors.map((err) => ({ err, severity: 'error' as const })),
+				...context.doc.warnings.map((err) => ({ err, severity: 'warning' as const })),
+			];
+			for (const { err, severity } of issues) {
+				const pos = { ...context.lineCounter.linePos(err.pos[0]), file: context.file };
+				const message = (err.message.split('at line')[0] || err.message).trim();
+				report({ message, severity, pos });
+			}
+		}
+		for (const { key, context } of this.includes) {
+			const node = context.doc.getIn([key], true);
+			if (!context.doc.errors.length && !isSeq(node)) {
+				const message = `Expected array at "${key}"`;
+				const pos = context.trace([key]) ?? { line: 1, col: 1, file: context.file };
+				report({ message, severity: 'error', pos });
+			}
+		}
+		const validation = schema.safeParse(this.toJS());
+		for (const issue of validation.success ? [] : validation.error.issues) {
+			const message = fromZodIssue(issue, { prefix: null }).message;
+			report({ message, severity: 'error', pos: this.trace(issue.path) });
+		}
+		return { validation, diagnostics };
+	}
 }
 
 /**
@@ -87,11 +261,12 @@ export class Parser {
 	/**
 	 * Parses given `source`, transforming it into `ParserContext`.
 	 * @param source - Source to parse.
+	 * @param file - Source file name (optional, used for tracing).
 	 * @retruns Parsed context.
 	 */
-	public parse(source: string) {
+	public parse(source: string, file?: string) {
 		const lineCounter = new LineCounter();
 		const doc = parseDocument(source, { lineCounter, customTags: this.customTags });
-		return new ParserContext(doc, lineCounter);
+		return new ParserContext(doc, lineCounter, source, file);
 	}
 }
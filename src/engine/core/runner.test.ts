@@ -0,0 +1,114 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import zod from 'zod';
+import { describe, it, expect } from 'vitest';
+import { Runner } from './runner';
+
+const story = `
+script:
+  - page:
+      name: Narrator
+      text: Pick one!
+  - menu:
+      Left:
+        - set: { name: side, value: left }
+      Right:
+        - set: { name: side, value: right }
+        - menu:
+            Up:
+              - set: { name: side, value: up }
+            Down:
+              - set: { name: side, value: down }
+  - play: { path: !inc /music.mp3 }
+  - page:
+      text: !fmt You went {{ side }}.
+`;
+
+describe('Runner', () => {
+	it('plays scripted choices', () => {
+		const [result] = Runner.parse(story, { choices: ['Right', 'down'] }).run();
+		expect(result).toMatchObject({ status: 'done', choices: ['Right', 'Down'] });
+		expect(result!.text).toEqual(['Narrator: Pick one!', 'You went down.']);
+		expect(result!.transcript).toContainEqual({
+			type: 'event',
+			event: { type: 'play', data: { path: '/music.mp3', channel: 'sfx' } },
+		});
+		expect(result!.transcript).toContainEqual({
+			type: 'menu',
+			path: [1],
+			items: ['Left', 'Right'],
+			pick: 'Right',
+		});
+		expect(result!.transcript.filter((entry) => entry.type === 'page')).toMatchObject([
+			{ path: [0], state: { name: 'Narrator', text: 'Pick one!' } },
+			{ path: [3], state: { name: '', text: 'You went down.' } },
+		]);
+	});
+
+	it('implements menu policies', () => {
+		const first = Runner.parse(story).run();
+		expect(first.map((result) => result.text.at(-1))).toEqual(['You went left.']);
+
+		const random = Runner.parse(story, { policy: 'random', seed: 7 }).run();
+		const again = Runner.parse(story, { policy: 'random', seed: 7 }).run();
+		expect(random.map((result) => result.choices)).toEqual(again.map((r) => r.choices));
+
+		const all = Runner.parse(story, { policy: 'all' }).run();
+		expect(all.map((result) => result.text.at(-1))).toEqual([
+			'You went left.',
+			'You went up.',
+			'You went down.',
+		]);
+		expect(all.map((result) => result.choices)).toEqual([
+			['Left'],
+			['Right', 'Up'],
+			['Right', 'Down'],
+		]);
+	});
+
+	it('reports errors and runaway playthroughs', () => {
+		const [unknown] = Runner.parse(story, { choices: ['Middle'] }).run();
+		expect(unknown).toMatchObject({
+			status: 'error',
+			error: expect.objectContaining({ message: 'Unknown menu choice: Middle' }),
+		});
+
+		const loop = 'script:\n  - label: a\n  - page: { text: A }\n  - jump: a\n';
+		const [looped] = Runner.parse(loop, { limit: 10 }).run();
+		expect(looped!.status).toBe('limit');
+		expect(looped!.text).toHaveLength(10);
+	});
+
+	it('keeps persistent variables per playthrough', () => {
+		const persistent = { visits: 0 };
+		const source = `
+script:
+  - set: { name: global.visits, value: !exp global.visits + 1 }
+  - menu:
+      Stay:
+        - set: { name: global.visits, value: !exp global.visits + 1 }
+        - page: { text: !fmt 'Stay {{ global.visits }}' }
+      Leave:
+        - page: { text: !fmt 'Leave {{ global.visits }}' }
+`;
+		const results = Runner.parse(source, { policy: 'all', persistent }).run();
+		expect(results.map((result) => result.text)).toEqual([['Stay 2'], ['Leave 1']]);
+		expect(persistent).toEqual({ visits: 0 });
+	});
+
+	it('supports custom commands', () => {
+		const [result] = Runner.parse('script:\n  - shake: 3\n  - page: { text: A }\n', {
+			commands: {
+				shake: {
+					schema: zod.number(),
+					run: (times, scene) => scene.emit('shake', times),
+				},
+			},
+		}).run();
+		expect(result!.transcript[0]).toEqual({
+			type: 'event',
+			event: { type: 'shake', data: 3 },
+		});
+	});
+});
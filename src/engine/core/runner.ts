@@ -0,0 +1,315 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import zod from 'zod';
+import { Tags } from 'yaml';
+import { cloneDeep } from 'lodash';
+import { Parser } from './parser';
+import { Scene, SceneMenu, SceneState } from './scene';
+import {
+	ScriptCommand,
+	ScriptDeclarationSchema,
+	ScriptError,
+	ScriptEvent,
+	ScriptOptions,
+	ScriptPath,
+	ScriptSource,
+	ScriptValue,
+} from './script';
+
+/**
+ * Runner menu policy.
+ * Used to pick menu items once the scripted choices are exhausted.
+ */
+// prettier-ignore
+export type RunnerPolicy = (
+	'first' | 'random' | 'all'
+);
+
+/**
+ * Runner transcript entry.
+ */
+// prettier-ignore
+export type RunnerEntry = (
+	| { type: 'page', path: ScriptPath, state: SceneState }
+	| { type: 'menu', path: ScriptPath, items: Array<string>, pick: string }
+	| { type: 'event', event: ScriptEvent }
+);
+
+/**
+ * Runner playthrough result.
+ */
+// prettier-ignore
+export type RunnerResult = {
+	status: 'done' | 'limit' | 'error';
+	choices: Array<string>;
+	transcript: Array<RunnerEntry>;
+	text: Array<string>;
+	error?: Error;
+};
+
+/**
+ * Runner options.
+ */
+// prettier-ignore
+export type RunnerOptions = ScriptOptions & {
+	choices?: Array<string>;
+	policy?: RunnerPolicy;
+	seed?: number;
+	limit?: number;
+	branches?: number;
+	commands?: Record<string, ScriptCommand<unknown, Scene>>;
+};
+
+/**
+ * Runner parsing options.
+ */
+// prettier-ignore
+export type RunnerParseOptions = RunnerOptions & {
+	file?: string;
+	tags?: Tags;
+};
+
+/**
+ * Maximum number of steps a single playthrough is allowed to take.
+ * @internal
+ */
+export const RUNNER_STEP_LIMIT = 1000;
+
+/**
+ * Maximum number of playthroughs explored by the `all` policy.
+ * @internal
+ */
+export const RUNNER_BRANCH_LIMIT = 100;
+
+/**
+ * Runner source schema.
+ * Only the parts of the document used by the scene are validated.
+ */
+export const RunnerSchema = zod.object({
+	config: zod
+		.object({
+			engine: zod.object({ expressions: zod.enum(['safe', 'legacy']) }).partial(),
+		})
+		.partial()
+		.passthrough()
+		.optional(),
+	declare: zod.record(zod.string(), ScriptDeclarationSchema).optional(),
+	script: zod.array(zod.unknown()),
+});
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32).
+ * @param seed - Generator seed.
+ * @returns Function returning numbers in [0, 1) range.
+ * @internal
+ */
+export const seeded = (seed: number) => {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+/**
+ * Headless scene runner.
+ * Plays the scene without rendering, picking menu items from scripted choices or a policy.
+ */
+export class Runner {
+	private random: () => number;
+
+	constructor(
+		private source: ScriptSource,
+		private options: RunnerOptions = {},
+	) {
+		this.random = seeded(options.seed ?? 0);
+	}
+
+	/**
+	 * Creates a runner from the given YAML `text`.
+	 * Assets are not available headlessly, so `!inc` paths are kept as is (unless overridden by `tags`).
+	 * @param text - YAML source.
+	 * @param options - Runner options.
+	 * @returns Runner.
+	 */
+	static parse(text: string, options: RunnerParseOptions = {}) {
+		const tags = [
+			...(options.tags ?? []),
+			{ tag: '!inc', resolve: (src: string) => src },
+		];
+		const context = new Parser(tags).parse(text, options.file);
+		const { config, declare, script } = context.parse(RunnerSchema);
+		const expressions = config?.engine?.expressions;
+		return new Runner(script as ScriptSource, { expressions, declare, ...options });
+	}
+
+	/**
+	 * Plays the scene until it is done.
+	 * The `all` policy plays every branch, other policies produce a single playthrough.
+	 * @returns Playthrough results.
+	 */
+	public run() {
+		const results: Array<RunnerResult> = [];
+		const result = this.result();
+		this.play(this.create(result, this.options.persistent ?? {}), result, results);
+		return results;
+	}
+
+	/**
+	 * Plays the given `scene`, forking it on menus if needed.
+	 * Forked playthroughs are restored from the menu snapshot (and a copy of persistent variables),
+	 * one per menu item.
+	 * @param scene - Scene to play.
+	 * @param result - Playthrough result to fill.
+	 * @param results - Finished playthrough results.
+	 * @internal
+	 */
+	protected play(scene: Scene, result: RunnerResult, results: Array<RunnerResult>) {
+		const limit = this.options.limit ?? RUNNER_STEP_LIMIT;
+		try {
+			for (let steps = 0; ; steps++) {
+				const menu = scene.getMenu();
+				if (!menu && scene.isDone()) {
+					result.status = 'done';
+					break;
+				}
+				if (steps >= limit) {
+					result.status = 'limit';
+					break;
+				}
+				if (!menu) {
+					scene.next();
+					continue;
+				}
+				const items = this.choose(menu, result.choices.length);
+				if (items.length > 1) {
+					const save = scene.save();
+					const persistent = scene.getPersistent();
+					for (const item of items) {
+						if (results.length < (this.options.branches ?? RUNNER_BRANCH_LIMIT)) {
+							const forked = cloneDeep(result);
+							const forkedScene = this.create(forked, persistent).load(save);
+							this.pick(forkedScene, menu, item, forked);
+							this.play(forkedScene, forked, results);
+						}
+					}
+					return;
+				}
+				this.pick(scene, menu, items[0]!, result);
+			}
+		} catch (err) {
+			result.status = 'error';
+			result.error = err as Error;
+		}
+		result.text = this.text(result.transcript);
+		results.push(result);
+	}
+
+	/**
+	 * Picks the given menu `item`, recording it in the transcript.
+	 * @internal
+	 */
+	protected pick(
+		scene: Scene,
+		menu: SceneMenu,
+		item: SceneMenu[0],
+		result: RunnerResult,
+	) {
+		const path = item.path.slice(0, -2);
+		const items = menu.map((item) => item.label);
+		result.transcript.push({ type: 'menu', path, items, pick: item.label });
+		result.choices.push(item.label);
+		scene.pick(item.id);
+	}
+
+	/**
+	 * Chooses menu items to pick.
+	 * Scripted choices are matched by either label or ID.
+	 * @param menu - Active menu.
+	 * @param index - Index of the choice.
+	 * @returns Items to pick (more than one item forks the playthrough).
+	 * @internal
+	 */
+	protected choose(menu: SceneMenu, index: number) {
+		const choice = this.options.choices?.[index];
+		if (choice !== undefined) {
+			const item = menu.find((item) => item.label === choice || item.id === choice);
+			if (!item) {
+				throw new ScriptError(`Unknown menu choice: ${choice}`);
+			}
+			return [item];
+		}
+		switch (this.options.policy ?? 'first') {
+			case 'first':
+				return [menu[0]!];
+			case 'random':
+				return [menu[Math.floor(this.random() * menu.length)]!];
+			case 'all':
+				return [...menu];
+		}
+	}
+
+	/**
+	 * Creates a scene recording its pages and events into the given `result`.
+	 * Scenes get their own copy of persistent variables, so that playthroughs do not affect each other.
+	 * @param result - Playthrough result to fill.
+	 * @param persistent - Persistent variables.
+	 * @returns Scene.
+	 * @internal
+	 */
+	protected create(result: RunnerResult, persistent: Record<string, ScriptValue>) {
+		const { commands, ...options } = this.options;
+		const scene = new Scene(this.source, {
+			...options,
+			persistent: cloneDeep(persistent),
+		});
+		for (const [name, command] of Object.entries(commands ?? {})) {
+			scene.define(name, command);
+		}
+		const page = scene.getCommand('page')!;
+		scene.define('page', {
+			...page,
+			run: (args, script, node) => {
+				page.run(args, script, node);
+				const path = scene.path(node) ?? [];
+				result.transcript.push({
+					type: 'page',
+					path,
+					state: cloneDeep(scene.getState()),
+				});
+			},
+		});
+		scene.subscribe((event) => {
+			result.transcript.push({ type: 'event', event: cloneDeep(event) });
+		});
+		return scene;
+	}
+
+	/**
+	 * Creates an empty playthrough result.
+	 * @internal
+	 */
+	protected result(): RunnerResult {
+		return { status: 'done', choices: [], transcript: [], text: [] };
+	}
+
+	/**
+	 * Converts transcript pages into text lines (e.g., `Name: Text`).
+	 * @param transcript - Transcript to convert.
+	 * @returns Text lines.
+	 * @internal
+	 */
+	protected text(transcript: Array<RunnerEntry>) {
+		return transcript.flatMap((entry) => {
+			if (entry.type !== 'page' || !entry.state.text) {
+				return [];
+			}
+			const { name, text } = entry.state;
+			return [name ? `${name}: ${text}` : text];
+		});
+	}
+}
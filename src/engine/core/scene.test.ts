@@ -3,6 +3,7 @@
  */
 import { describe, it, expect, vi } from 'vitest';
 import { Scene } from './scene';
+import { ScriptSource, SCRIPT_STATE_VERSION } from './script';
 
 describe('Scene', () => {
 	it('implements `page` command', () => {
@@ -123,6 +124,54 @@ describe('Scene', () => {
 		});
 	});
 
+	it('implements `menu` command after a loop', () => {
+		// prettier-ignore
+		const scene = new Scene([
+			{ each: { in: ['a', 'b', 'c'], as: 'item', do: [
+				{ page: { text: Scene.fmt('{{ item }}') }},
+			]}},
+			{ menu: { 'Label A': [] } },
+		]);
+
+		const texts: Array<string | undefined> = [];
+		while (!scene.getMenu()) {
+			scene.next();
+			texts.push(scene.getState().text);
+		}
+		expect(texts).toEqual(['a', 'b', 'c', '']);
+	});
+
+	it('implements `menu` command inside of a subroutine', () => {
+		const scene = new Scene([
+			{ call: 'choose' },
+			{
+				page: {
+					text: Scene.fmt('You have picked {{ choice }}.'),
+				},
+			},
+			{ throw: 'end' },
+			{ label: 'choose' },
+			{
+				menu: {
+					'Label A': [{ set: { name: 'choice', value: 'A' } }, { return: null }],
+					'Label B': [{ set: { name: 'choice', value: 'B' } }, { return: null }],
+				},
+			},
+			{ throw: 'unreachable' },
+		]);
+
+		scene.next();
+		expect(scene.getMenu()).toBeTruthy();
+
+		const save = scene.save();
+		scene.pick('labelB');
+		expect(scene.getState()).toMatchObject({ text: 'You have picked B.' });
+
+		scene.load(save);
+		scene.pick('labelA');
+		expect(scene.getState()).toMatchObject({ text: 'You have picked A.' });
+	});
+
 	it('implements `play` and `stop` command', () => {
 		// prettier-ignore
 		const scene = new Scene([
@@ -138,32 +187,102 @@ describe('Scene', () => {
 
 		scene.next();
 		expect(scene.getState()).toMatchObject({
-			loop: null,
+			loop: {},
 		});
 		expect(listener).toHaveBeenLastCalledWith({
 			type: 'play',
-			data: { path: 'a' },
+			data: { path: 'a', channel: 'sfx' },
 		});
 
 		scene.next();
 		expect(scene.getState()).toMatchObject({
-			loop: { path: 'b', loop: true },
+			loop: { music: { path: 'b', channel: 'music', loop: true } },
 		});
 		expect(listener).toHaveBeenLastCalledWith({
 			type: 'play',
-			data: { path: 'b', loop: true },
+			data: { path: 'b', channel: 'music', loop: true },
 		});
 
 		scene.next();
-		expect(scene.getState()).toMatchObject({
-			loop: null,
-		});
+		expect(scene.getState().loop).toEqual({});
 		expect(listener).toHaveBeenLastCalledWith({
 			type: 'stop',
 			data: {},
 		});
 	});
 
+	it('implements audio channels', () => {
+		// prettier-ignore
+		const scene = new Scene([
+			{ play: { path: 'a', loop: true }},
+			{ play: { path: 'b', channel: 'ambience', loop: true }},
+			{ page: {} },
+			{ play: { path: 'c', loop: true }},
+			{ stop: { channel: 'music' }},
+			{ page: {} },
+		]);
+
+		scene.next();
+		expect(scene.getState().loop).toEqual({
+			music: { path: 'a', channel: 'music', loop: true },
+			ambience: { path: 'b', channel: 'ambience', loop: true },
+		});
+		const state = scene.save();
+		scene.next();
+		expect(scene.getState().loop).toEqual({
+			ambience: { path: 'b', channel: 'ambience', loop: true },
+		});
+		scene.load(state);
+		expect(Object.keys(scene.getState().loop)).toEqual(['music', 'ambience']);
+	});
+
+	it('implements `volume` command', () => {
+		// prettier-ignore
+		const scene = new Scene([
+			{ play: { path: 'a', loop: true, fade: 2, crossfade: true }},
+			{ volume: { channel: 'music', volume: 0.5, seconds: 3 }},
+			{ volume: { channel: 'voice', volume: 0.8 }},
+			{ page: {} },
+			{ stop: { channel: 'music', fade: 1.5 }},
+			{ page: {} },
+		]);
+
+		const listener = vi.fn();
+		scene.subscribe(listener);
+
+		scene.next();
+		expect(scene.getState().volume).toEqual({ music: 0.5, voice: 0.8 });
+		expect(listener).toHaveBeenCalledWith({
+			type: 'volume',
+			data: { channel: 'music', volume: 0.5, seconds: 3 },
+		});
+		scene.next();
+		expect(listener).toHaveBeenLastCalledWith({
+			type: 'stop',
+			data: { channel: 'music', fade: 1.5 },
+		});
+		expect(() =>
+			new Scene([{ volume: { channel: 'music', volume: 2 } }]).next(),
+		).toThrow();
+	});
+
+	it('implements page voice clips', () => {
+		// prettier-ignore
+		const scene = new Scene([
+			{ page: { name: 'Althea', text: 'Hello', voice: '/voice/althea-001.mp3' }},
+			{ page: { name: 'Althea', text: 'World' }},
+		]);
+
+		expect(scene.getState().voice).toBe(null);
+		scene.next();
+		expect(scene.getState().voice).toBe('/voice/althea-001.mp3');
+		const state = scene.save();
+		scene.next();
+		expect(scene.getState().voice).toBe(null);
+		scene.load(state);
+		expect(scene.getState().voice).toBe('/voice/althea-001.mp3');
+	});
+
 	it('implements `wait` command', () => {
 		// prettier-ignore
 		const scene = new Scene([
@@ -203,4 +322,135 @@ describe('Scene', () => {
 		expect(scene.getState().sprites.length).toBe(0);
 		expect(scene.isDone()).toBe(true);
 	});
+
+	it('implements rollback', () => {
+		// prettier-ignore
+		const scene = new Scene([
+			{ play: { path: 'a.mp3', loop: true }},
+			{ page: { text: 'A' }},
+			{ play: { path: 'b.mp3', loop: true }},
+			{ menu: {
+				'Left': [{ page: { text: 'Left!' }}],
+				'Right': [{ page: { text: 'Right!' }}],
+			}},
+		]);
+
+		expect(scene.back()).toBe(false);
+		expect(scene.next()).toBe(true);
+		expect(scene.next()).toBe(true);
+		expect(scene.next()).toBe(false);
+		expect(scene.pick('left')).toBe(true);
+		expect(scene.getState()).toMatchObject({
+			text: 'Left!',
+			loop: { music: { path: 'b.mp3' } },
+		});
+
+		expect(scene.back()).toBe(true);
+		expect(scene.getMenu()).toHaveLength(2);
+		scene.pick('right');
+		expect(scene.getState().text).toBe('Right!');
+
+		expect(scene.canBack(3)).toBe(false);
+		expect(scene.back(2)).toBe(true);
+		expect(scene.getMenu()).toBe(null);
+		expect(scene.getState()).toMatchObject({
+			text: 'A',
+			loop: { music: { path: 'a.mp3' } },
+		});
+		expect(scene.back()).toBe(false);
+
+		scene.next();
+		scene.pick('left');
+		expect(scene.next()).toBe(false);
+		expect(scene.isDone()).toBe(true);
+		expect(scene.canBack(2)).toBe(true);
+		expect(scene.canBack(3)).toBe(false);
+	});
+
+	it('implements chapters', () => {
+		// prettier-ignore
+		const scene = new Scene([
+			{ page: { text: 'Prologue' }},
+			{ label: 'first' },
+			{ page: { text: 'First' }},
+			{ if: { cond: true, then: [
+				{ label: 'second' },
+				{ page: { text: 'Second' }},
+			]}},
+			{ page: { text: 'Still second' }},
+		]);
+
+		expect(scene.getChapter()).toBe(null);
+		scene.next();
+		expect(scene.getChapter()).toBe(null);
+		scene.next();
+		expect(scene.getChapter()).toBe('first');
+		scene.next();
+		expect(scene.getChapter()).toBe('second');
+		scene.next();
+		expect(scene.getChapter()).toBe('second');
+	});
+
+	it('implements displayed page paths', () => {
+		// prettier-ignore
+		const scene = new Scene([
+			{ page: { text: 'First' }},
+			{ if: { cond: true, then: [
+				{ page: { text: 'Second' }},
+			]}},
+			{ wait: { seconds: 1 } },
+			{ page: { text: 'Third' }},
+			{ menu: { 'A': [] } },
+		]);
+
+		expect(scene.getPage()).toBe(null);
+		scene.next();
+		expect(scene.getPage()).toEqual([0]);
+		scene.next();
+		expect(scene.getPage()).toEqual([1, 'if', 'then', 0]);
+		const state = scene.save();
+		scene.next();
+		expect(scene.getPage()).toBe(null);
+		scene.next();
+		expect(scene.getMenu()).not.toBe(null);
+		expect(scene.getPage()).toEqual([3]);
+		scene.load(state);
+		expect(scene.getPage()).toEqual([1, 'if', 'then', 0]);
+	});
+
+	it('migrates saves with top-level scene globals', () => {
+		const source = [{ page: { text: 'Hello!' } }, { page: { text: 'World!' } }];
+		const origin = new Scene(source);
+		origin.next();
+		const { version, fingerprint, scope, stack } = JSON.parse(origin.save());
+		const { engine, ...vars } = scope;
+		expect(version).toBe(SCRIPT_STATE_VERSION);
+		expect(fingerprint).toEqual(expect.any(String));
+
+		const legacy = JSON.stringify({ scope: { ...vars, ...engine }, stack });
+		const scene = new Scene(source).load(legacy);
+		expect(scene.getState().text).toBe('Hello!');
+		expect(scene.getMenu()).toBe(null);
+		scene.next();
+		expect(scene.getState().text).toBe('World!');
+	});
+
+	it('migrates saves with a single looped sound', () => {
+		const source: ScriptSource = [
+			{ play: { path: 'a', loop: true } },
+			{ page: { text: 'Hello!' } },
+		];
+		const origin = new Scene(source);
+		origin.next();
+		const save = JSON.parse(origin.save());
+		const { engine } = save.scope;
+		engine.state.loop = { path: 'a', loop: true };
+		const legacy = JSON.stringify({ ...save, version: 1 });
+
+		const scene = new Scene(source).load(legacy);
+		expect(scene.getState().loop).toEqual({ music: { path: 'a', loop: true } });
+		engine.state.loop = null;
+		const silent = new Scene(source).load(JSON.stringify({ ...save, version: 1 }));
+		expect(silent.getState().loop).toEqual({});
+	});
 });
@@ -2,9 +2,18 @@
  * Sealed Sins, 2023-2024.
  */
 import zod from 'zod';
+import traverse from 'traverse';
 import { PartialDeep } from 'type-fest';
-import { mergeWith, uniqBy, camelCase } from 'lodash';
-import { Script, ScriptNode, ScriptError, ScriptPath, ScriptSource } from './script';
+import { mergeWith, uniqBy, camelCase, last, omit, isPlainObject } from 'lodash';
+import { isRecord } from '../utils/object';
+import {
+	Script,
+	ScriptError,
+	ScriptPath,
+	ScriptSource,
+	ScriptOptions,
+	SCRIPT_GLOBALS,
+} from './script';
 
 /**
  * Scene State.
@@ -14,6 +23,22 @@ export type SceneState = (
 	zod.infer<typeof SceneStateSchema>
 );
 
+/**
+ * Scene Audio Channel.
+ */
+// prettier-ignore
+export type SceneChannel = (
+	zod.infer<typeof SceneChannelSchema>
+);
+
+/**
+ * Scene Sound.
+ */
+// prettier-ignore
+export type SceneSound = (
+	zod.infer<typeof SceneSoundSchema>
+);
+
 /**
  * Scene Sprite.
  */
@@ -34,6 +59,7 @@ export type SceneMenu = Array<{
 
 /**
  * Scene Global Variables.
+ * Stored in the reserved `SCRIPT_GLOBALS` namespace (e.g., `engine.state`).
  * @internal
  */
 // prettier-ignore
@@ -44,6 +70,24 @@ export const enum SceneGlobal {
 	MENU  = 'menu',
 }
 
+/**
+ * Scene global variable names.
+ * Saves made before the `SCRIPT_GLOBALS` namespace kept them at the top level.
+ * @internal
+ */
+export const SCENE_GLOBALS = [
+	SceneGlobal.STATE,
+	SceneGlobal.EVENT,
+	SceneGlobal.YIELD,
+	SceneGlobal.MENU,
+];
+
+/**
+ * Maximum number of rollback snapshots kept by a scene.
+ * @internal
+ */
+export const SCENE_ROLLBACK_LIMIT = 50;
+
 /**
  * Scene Background Schema.
  */
@@ -67,20 +111,33 @@ export const SceneSpriteSchema = zod
 	})
 	.strict();
 
+/**
+ * Scene Audio Channel Schema.
+ * Looped sounds play on the `music` channel by default, the rest on the `sfx` one.
+ */
+export const SceneChannelSchema = zod.enum(['music', 'ambience', 'sfx', 'voice']);
+
 /**
  * Scene Sound Schema.
+ * Sounds fade in for `fade` seconds, fading out the loop they replace for as long.
+ * The replaced loop fades out before the sound starts, unless `crossfade` is set.
  */
 export const SceneSoundSchema = zod
 	.object({
 		path: zod.string(),
+		channel: SceneChannelSchema.optional(),
 		volume: zod.number().optional(),
 		rate: zod.number().optional(),
 		loop: zod.boolean().optional(),
+		fade: zod.number().nonnegative().optional(),
+		crossfade: zod.boolean().optional(),
 	})
 	.strict();
 
 /**
  * Scene State Schema.
+ * Looped sounds and volume levels set by the `volume` command are kept per channel.
+ * Voice clip (asset path) only belongs to the page it is set on.
  */
 export const SceneStateSchema = zod
 	.object({
@@ -88,7 +145,9 @@ export const SceneStateSchema = zod
 		text: zod.string(),
 		background: SceneBackgroundSchema,
 		sprites: zod.array(SceneSpriteSchema),
-		loop: SceneSoundSchema.or(zod.null()),
+		loop: zod.record(SceneChannelSchema, SceneSoundSchema),
+		volume: zod.record(SceneChannelSchema, zod.number().min(0).max(1)).optional(),
+		voice: zod.string().nullable().optional(),
 	})
 	.strict();
 
@@ -96,11 +155,15 @@ export const SceneStateSchema = zod
  * Scene Interpreter.
  */
 export class Scene extends Script {
+	private history: Array<string> = [];
+	private pagePath: ScriptPath | null = null;
 	private initialState: SceneState = {
 		name: '',
 		text: '',
 		sprites: [],
-		loop: null,
+		loop: {},
+		volume: {},
+		voice: null,
 		background: {
 			image: null,
 			position: 'center',
@@ -108,12 +171,129 @@ export class Scene extends Script {
 		},
 	};
 
-	constructor(source: ScriptSource) {
-		super(source);
+	constructor(source: ScriptSource, options: ScriptOptions = {}) {
+		super(source, options);
 		this.setState(this.initialState);
-		this.setVar(SceneGlobal.YIELD, true);
-		this.setVar(SceneGlobal.EVENT, null);
-		this.setVar(SceneGlobal.MENU, null);
+		this.setGlobal(SceneGlobal.YIELD, true);
+		this.setGlobal(SceneGlobal.EVENT, null);
+		this.setGlobal(SceneGlobal.MENU, null);
+
+		this.migration(0, (state) => {
+			if (!isRecord(state.scope)) {
+				return state;
+			}
+			const { [SCRIPT_GLOBALS]: globals, ...scope } = state.scope;
+			if (!isRecord(globals)) {
+				return state;
+			}
+			for (const name of SCENE_GLOBALS) {
+				if (name in scope) {
+					globals[name] = scope[name];
+					delete scope[name];
+				}
+			}
+			return { ...state, scope: { ...scope, [SCRIPT_GLOBALS]: globals } };
+		});
+
+		this.migration(1, (state) => {
+			const globals = isRecord(state.scope) ? state.scope[SCRIPT_GLOBALS] : null;
+			const scene = isRecord(globals) ? globals[SceneGlobal.STATE] : null;
+			if (isRecord(scene)) {
+				const { loop } = scene;
+				const channel =
+					isRecord(loop) && typeof loop.channel === 'string' ? loop.channel : 'music';
+				scene.loop = loop ? { [channel]: loop } : {};
+			}
+			return state;
+		});
+
+		this.define('page', {
+			schema: SceneStateSchema.strict().deepPartial(),
+			run: (data, _, node) => {
+				this.setGlobal(SceneGlobal.YIELD, !this.isMenuNext());
+				this.setState(data as SceneState);
+				this.pagePath = this.path(node);
+			},
+		});
+
+		this.define('menu', {
+			mode: 'raw',
+			schema: zod.record(zod.string(), zod.array(zod.any())),
+			blocks: (data) => Object.keys(data).map((label) => [label]),
+			run: (data) => {
+				this.setGlobal(SceneGlobal.YIELD, true);
+				this.setMenu(
+					Object.entries(data).map(([label, code]) => ({
+						id: camelCase(label),
+						label,
+						path: this.path(code)!,
+					})),
+				);
+			},
+		});
+
+		this.define('play', {
+			schema: SceneSoundSchema,
+			run: (data) => {
+				const sound = { ...data, channel: data.channel ?? (data.loop ? 'music' : 'sfx') };
+				this.emit('play', sound);
+				if (sound.loop) {
+					this.setState({ loop: { ...this.getState().loop, [sound.channel]: sound } });
+				}
+			},
+		});
+
+		this.define('stop', {
+			schema: zod.object({
+				channel: SceneChannelSchema.optional(),
+				fade: zod.union([zod.boolean(), zod.number().nonnegative()]).optional(),
+			}),
+			run: (data) => {
+				const loop = data.channel ? omit(this.getState().loop, data.channel) : {};
+				this.setState({ loop });
+				this.emit('stop', data);
+			},
+		});
+
+		this.define('volume', {
+			schema: zod.object({
+				channel: SceneChannelSchema,
+				volume: zod.number().min(0).max(1),
+				seconds: zod.number().nonnegative().optional(),
+			}),
+			run: (data) => {
+				this.setState({ volume: { [data.channel]: data.volume } });
+				this.emit('volume', data);
+			},
+		});
+
+		this.define('wait', {
+			schema: zod.object({
+				seconds: zod.number(),
+			}),
+			run: (data) => {
+				this.emit('wait', data);
+				this.setGlobal(SceneGlobal.YIELD, true);
+			},
+		});
+
+		this.define('show', {
+			schema: SceneSpriteSchema,
+			run: (data) => {
+				const sprites = uniqBy([data, ...this.getState().sprites], 'id');
+				this.setState({ sprites });
+			},
+		});
+
+		this.define('hide', {
+			schema: zod.object({
+				id: zod.string(),
+			}),
+			run: (data) => {
+				const sprites = this.getState().sprites.filter((sprite) => sprite.id !== data.id);
+				this.setState({ sprites });
+			},
+		});
 	}
 
 	/**
@@ -121,20 +301,21 @@ export class Scene extends Script {
 	 * @returns Scene state.
 	 */
 	public getState() {
-		const state = this.getVar<SceneState>(SceneGlobal.STATE);
+		const state = this.getGlobal<SceneState>(SceneGlobal.STATE);
 		return state;
 	}
 
 	/**
 	 * Sets scene state (partial).
+	 * Arrays and the looped sounds are replaced as a whole.
 	 * @param update - Partial state.
 	 */
 	// prettier-ignore
 	public setState(update: PartialDeep<SceneState>) {
-		const state = this.getVar<SceneState>(SceneGlobal.STATE);
+		const state = this.getGlobal<SceneState>(SceneGlobal.STATE);
 		const valid = SceneStateSchema.deepPartial().parse(update);
-		this.setVar(SceneGlobal.STATE, mergeWith(state, valid, (curr, next) => {
-			if (Array.isArray(next) || Array.isArray(curr)) {
+		this.setGlobal(SceneGlobal.STATE, mergeWith(state, valid, (curr, next, key, object) => {
+			if (Array.isArray(next) || Array.isArray(curr) || (object === state && key === 'loop')) {
 				return next;
 			}
 		}));
@@ -145,7 +326,7 @@ export class Scene extends Script {
 	 * @returns Menu state.
 	 */
 	public getMenu() {
-		const menu = this.getVar<SceneMenu | null>(SceneGlobal.MENU);
+		const menu = this.getGlobal<SceneMenu | null>(SceneGlobal.MENU);
 		return menu;
 	}
 
@@ -154,7 +335,36 @@ export class Scene extends Script {
 	 * @param menu - New menu state.
 	 */
 	public setMenu(menu: SceneMenu | null) {
-		this.setVar(SceneGlobal.MENU, menu);
+		this.setGlobal(SceneGlobal.MENU, menu);
+	}
+
+	/**
+	 * Gets path of the displayed page, i.e. the `page` command executed by the last step.
+	 * @returns Page path (or null if no page was displayed).
+	 */
+	public getPage() {
+		return this.pagePath;
+	}
+
+	/**
+	 * Gets scene chapter, i.e. the nearest label preceding the last executed command.
+	 * @returns Label name (or null if there is none).
+	 */
+	public getChapter(): string | null {
+		const frame = last(this.stack.dump());
+		const current = frame?.code[frame.programCounter - 1];
+		let chapter: string | null = null;
+		if (!current) {
+			return chapter;
+		}
+		traverse(this.source).forEach(function (node) {
+			if (node === current) {
+				this.stop();
+			} else if (isPlainObject(node) && typeof node.label === 'string') {
+				chapter = node.label;
+			}
+		});
+		return chapter;
 	}
 
 	/**
@@ -163,43 +373,105 @@ export class Scene extends Script {
 	 * @internal
 	 */
 	public override step() {
-		if (!this.getVar(SceneGlobal.YIELD)) {
+		if (!this.getGlobal(SceneGlobal.YIELD)) {
 			super.step();
 		}
 	}
 
-	public override load(state: string) {
-		super.load(state);
-		this.stack.peek()!.frame.programCounter--;
+	/**
+	 * Loads scene state, re-executing its last yielded command.
+	 * Rollback history is reset to the loaded state.
+	 * @param state - State to load.
+	 * @param lenient - Drop frames of missing blocks instead of throwing.
+	 * @returns Scene.
+	 * @internal
+	 */
+	protected override restore(state: string, lenient: boolean) {
+		super.restore(state, lenient);
+		this.pagePath = null;
+		last(this.stack.dump())!.programCounter--;
 		super.step();
+		this.history = [state];
 		return this;
 	}
 
+	/**
+	 * Checks whether the command executed next is a menu (shown along with the last page).
+	 * Exhausted loops may run another iteration first, so they are never followed by a menu.
+	 * @returns Whether the next command is a menu.
+	 * @internal
+	 */
+	protected isMenuNext() {
+		for (const frame of this.stack.dump().reverse()) {
+			if (frame.programCounter < frame.code.length) {
+				return this.unpack(frame.code[frame.programCounter]!).type === 'menu';
+			}
+			if (frame.meta?.type === 'loop') {
+				return false;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Checks whether the scene can be rolled back by the given number of yields.
+	 * @param steps - Number of yields to roll back (optional, 1 by default).
+	 * @returns Whether enough rollback snapshots are available.
+	 */
+	public canBack(steps: number = 1) {
+		return steps > 0 && this.history.length > steps;
+	}
+
+	/**
+	 * Rolls the scene back to one of its previous yields (page, menu or `wait`).
+	 * Menus restored this way accept a different pick.
+	 * @param steps - Number of yields to roll back (optional, 1 by default).
+	 * @returns Whether enough rollback snapshots were available.
+	 */
+	public back(steps: number = 1) {
+		if (!this.canBack(steps)) {
+			return false;
+		}
+		const history = this.history.slice(0, -steps);
+		this.load(last(history)!);
+		this.history = history;
+		return true;
+	}
+
 	/**
 	 * Executes the next scene frame.
 	 * Does nothing if an active menu is present.
+	 * Every yield is kept as a rollback snapshot.
+	 * @returns Whether the scene yielded (rather than ended).
 	 */
 	public next() {
 		const menu = this.getMenu();
 		if (menu) {
-			return;
+			return false;
 		}
-		this.setVar(SceneGlobal.YIELD, false);
-		this.setState({ name: '', text: '' });
-		while (!this.getVar(SceneGlobal.YIELD) && !this.isDone()) {
+		this.setGlobal(SceneGlobal.YIELD, false);
+		this.setState({ name: '', text: '', voice: null });
+		this.pagePath = null;
+		while (!this.getGlobal(SceneGlobal.YIELD) && !this.isDone()) {
 			this.step();
 		}
+		if (!this.getGlobal(SceneGlobal.YIELD)) {
+			return false;
+		}
+		this.history = [...this.history, this.save()].slice(-SCENE_ROLLBACK_LIMIT);
+		return true;
 	}
 
 	/**
 	 * Executes menu pick.
 	 * Does nothing if no active menu is present.
 	 * @param id - Menu item ID to pick.
+	 * @returns Whether the scene yielded (rather than ended).
 	 */
 	public pick(id: string) {
 		const menu = this.getMenu();
 		if (!menu) {
-			return;
+			return false;
 		}
 		const item = menu.find((item) => item.id === id);
 		if (!item) {
@@ -207,87 +479,6 @@ export class Scene extends Script {
 		}
 		this.setMenu(null);
 		this.stack.push(this.node(item.path) as ScriptSource);
-		this.next();
-	}
-
-	/**
-	 * Evaluates `node` as a command and executes it.
-	 * This also includes scene commands.
-	 * @param value - Command to execute.
-	 * @param slice - Optional stack slice (used to debug some commands).
-	 * @internal
-	 */
-	protected override exec(node: ScriptNode) {
-		const { type, args } = this.unpack(node);
-		switch (type) {
-			case 'page': {
-				const argSchema = SceneStateSchema.strict().deepPartial();
-				const data = this.validate(argSchema, this.eval(args));
-				const next = this.stack.peek()?.value;
-				this.setVar(SceneGlobal.YIELD, !next || this.unpack(next).type !== 'menu');
-				this.setState(data as SceneState);
-				break;
-			}
-			case 'menu': {
-				const argSchema = zod.record(zod.string(), zod.array(zod.any()));
-				const data = this.validate(argSchema, args);
-				this.setVar(SceneGlobal.YIELD, true);
-				this.setMenu(
-					Object.entries(data).map(([label, code]) => ({
-						id: camelCase(label),
-						label,
-						path: this.path(code)!,
-					})),
-				);
-				break;
-			}
-			case 'play': {
-				const argSchema = SceneSoundSchema;
-				const data = this.validate(argSchema, this.eval(args));
-				this.emit('play', data);
-				if (data.loop) {
-					this.setState({ loop: data });
-				}
-				break;
-			}
-			case 'stop': {
-				const argSchema = zod.object({
-					fade: zod.boolean().optional(),
-				});
-				const data = this.validate(argSchema, this.eval(args));
-				this.setState({ loop: null });
-				this.emit('stop', data);
-				break;
-			}
-			case 'wait': {
-				const argSchema = zod.object({
-					seconds: zod.number(),
-				});
-				const data = this.validate(argSchema, this.eval(args));
-				this.emit('wait', data);
-				this.setVar(SceneGlobal.YIELD, true);
-				break;
-			}
-			case 'show': {
-				const argSchema = SceneSpriteSchema;
-				const data = this.validate(argSchema, this.eval(args));
-				const sprites = uniqBy([data, ...this.getState().sprites], 'id');
-				this.setState({ sprites });
-				break;
-			}
-			case 'hide': {
-				const argSchema = zod.object({
-					id: zod.string(),
-				});
-				const data = this.validate(argSchema, this.eval(args));
-				const sprites = this.getState().sprites.filter((sprite) => sprite.id !== data.id);
-				this.setState({ sprites });
-				break;
-			}
-			default: {
-				super.exec(node);
-				break;
-			}
-		}
+		return this.next();
 	}
 }
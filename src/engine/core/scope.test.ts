@@ -3,6 +3,7 @@
  */
 import { describe, it, expect } from 'vitest';
 import { Scope } from './scope';
+import { ExpressionError } from './expression';
 
 describe('Scope', () => {
 	it('implements expression rendering', () => {
@@ -34,13 +35,25 @@ describe('Scope', () => {
 
 	it('fails to render an invalid expression', () => {
 		const scope = new Scope();
-		expect(() => scope.renderExpression('nonExisting')).toThrow(ReferenceError);
-		expect(() => scope.renderExpression('return')).toThrow(SyntaxError);
+		expect(() => scope.renderExpression('nonExisting')).toThrow(ExpressionError);
+		expect(() => scope.renderExpression('return')).toThrow(ExpressionError);
 	});
 
 	it('fails to render an invalid template', () => {
 		const scope = new Scope();
-		expect(() => scope.renderTemplate('{{ nonExisting }}')).toThrow(ReferenceError);
-		expect(() => scope.renderExpression('{{ return }}')).toThrow(SyntaxError);
+		expect(() => scope.renderTemplate('{{ nonExisting }}')).toThrow(ExpressionError);
+		expect(() => scope.renderExpression('{{ return }}')).toThrow(ExpressionError);
+	});
+
+	it('implements legacy expression rendering', () => {
+		const scope = new Scope({ a: 100, b: 150 }, 'legacy');
+		expect(scope.renderExpression('[a, b].map((x) => x * 2)')).toEqual([200, 300]);
+		expect(scope.renderTemplate('{{ Math.max(a, b) }}')).toBe('150');
+	});
+
+	it('fails to render an invalid legacy expression', () => {
+		const scope = new Scope({}, 'legacy');
+		expect(() => scope.renderExpression('nonExisting')).toThrow(ReferenceError);
+		expect(() => scope.renderExpression('return')).toThrow(SyntaxError);
 	});
 });
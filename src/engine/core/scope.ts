@@ -2,12 +2,23 @@
  * Sealed Sins, 2023-2024.
  */
 import { clear } from '../utils/object';
+import { Expression } from './expression';
+
+/**
+ * Scope expression mode.
+ * The `legacy` mode renders expressions as plain (unsafe) JS code.
+ */
+// prettier-ignore
+export type ScopeMode = (
+	'safe' | 'legacy'
+);
 
 /**
  * Variable scope.
  */
 export class Scope<T = unknown> {
-	constructor(private vars: Record<string, T> = {}) {
+	// prettier-ignore
+	constructor(private vars: Record<string, T> = {}, public readonly mode: ScopeMode = 'safe') {
 		return;
 	}
 
@@ -45,11 +56,24 @@ export class Scope<T = unknown> {
 	}
 
 	/**
-	 * Renders `template` as a JS expression and returns its value.
+	 * Renders `template` as an expression and returns its value.
 	 * @param template - Expression to render.
 	 * @returns Rendered expression.
 	 */
 	public renderExpression<T = unknown>(template: string) {
+		if (this.mode === 'legacy') {
+			return this.renderLegacyExpression<T>(template);
+		}
+		const expression = new Expression(template);
+		return expression.evaluate(this.vars) as T;
+	}
+
+	/**
+	 * Renders `template` as a JS expression and returns its value.
+	 * @param template - Expression to render.
+	 * @returns Rendered expression.
+	 */
+	public renderLegacyExpression<T = unknown>(template: string) {
 		const kwargs = { ...this.vars, vars: this.vars };
 		const render = new Function(...Object.keys(kwargs), `return (${template})`);
 		const result = render.call(this.vars, ...Object.values(kwargs));
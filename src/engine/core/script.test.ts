@@ -1,8 +1,9 @@
 /**
  * Sealed Sins, 2023-2024.
  */
+import zod from 'zod';
 import { describe, it, expect, afterEach, vi } from 'vitest';
-import { Script, ScriptSource } from './script';
+import { Script, ScriptSource, SCRIPT_STATE_VERSION } from './script';
 
 const spyOnLog = () => {
 	return vi.spyOn(console, 'log').mockImplementation(() => null);
@@ -201,18 +202,286 @@ describe('Script', () => {
 		expect(log).toHaveBeenLastCalledWith('World!');
 	});
 
+	it('implements `jump` command to a nested label', () => {
+		// prettier-ignore
+		const script = new Script([
+			{ jump: 'nested' },
+			{
+				if: {
+					cond: false,
+					then: [
+						{ print: 'Unreachable!' },
+						{ label: 'nested' },
+						{ print: 'Hello!' },
+					],
+				},
+			},
+			{ print: 'World!' },
+		]);
+		const log = spyOnLog();
+		while (!script.isDone()) {
+			script.step();
+		}
+		expect(log.mock.calls).toEqual([['Hello!'], ['World!']]);
+	});
+
+	it('implements `jump` command between nested branches', () => {
+		// prettier-ignore
+		const script = new Script([
+			{
+				if: {
+					cond: true,
+					then: [
+						{ print: 'Hello!' },
+						{ jump: 'world' },
+						{ print: 'Unreachable!' },
+					],
+					else: [
+						{ print: 'Unreachable!' },
+						{ label: 'world' },
+						{ print: 'World!' },
+					],
+				},
+			},
+			{ print: 'Done!' },
+		]);
+		const log = spyOnLog();
+		while (!script.isDone()) {
+			script.step();
+		}
+		expect(log.mock.calls).toEqual([['Hello!'], ['World!'], ['Done!']]);
+	});
+
+	it('fails to jump to a duplicate label', () => {
+		// prettier-ignore
+		const script = new Script([
+			{ jump: 'start' },
+			{ label: 'start' },
+			{ if: { cond: true, then: [{ label: 'start' }] } },
+		]);
+		expect(() => script.step()).toThrowError(
+			expect.objectContaining({
+				name: 'ScriptError',
+				message: 'Label "start" is defined more than once',
+				path: [0],
+			}),
+		);
+	});
+
+	it('implements `call` and `return` commands', () => {
+		// prettier-ignore
+		const script = new Script([
+			{ call: 'greet' },
+			{ print: 'World!' },
+			{ throw: 'end' },
+			{ label: 'greet' },
+				{
+					if: {
+						cond: true,
+						then: [{ print: 'Hello!' }, { return: null }, { print: 'Unreachable!' }],
+					},
+				},
+				{ print: 'Unreachable!' },
+		]);
+		const log = spyOnLog();
+		script.step(); // call
+		script.step(); // label greet
+		script.step(); // if
+		script.step(); // print
+		expect(log).toHaveBeenLastCalledWith('Hello!');
+		script.step(); // return
+		script.step(); // print
+		expect(log).toHaveBeenLastCalledWith('World!');
+		expect(() => script.step()).toThrowError('end');
+	});
+
+	it('implements `call` and `return` commands with save and load', () => {
+		// prettier-ignore
+		const source: ScriptSource = [
+			{ call: 'outer' },
+			{ print: 'Done!' },
+			{ throw: 'end' },
+			{ label: 'outer' },
+				{ call: 'inner' },
+				{ print: 'Outer!' },
+				{ return: null },
+			{ label: 'inner' },
+				{ print: 'Inner A!' },
+				{ print: 'Inner B!' },
+				{ return: null },
+		];
+
+		const log = spyOnLog();
+		const scriptOrigin = new Script(source);
+		scriptOrigin.step(); // call outer
+		scriptOrigin.step(); // label outer
+		scriptOrigin.step(); // call inner
+		scriptOrigin.step(); // label inner
+		scriptOrigin.step(); // print
+		expect(log).toHaveBeenLastCalledWith('Inner A!');
+		const save = scriptOrigin.save();
+
+		const scriptLoaded = new Script(source).load(save);
+		scriptLoaded.step(); // print
+		expect(log).toHaveBeenLastCalledWith('Inner B!');
+		scriptLoaded.step(); // return
+		scriptLoaded.step(); // print
+		expect(log).toHaveBeenLastCalledWith('Outer!');
+		scriptLoaded.step(); // return
+		scriptLoaded.step(); // print
+		expect(log).toHaveBeenLastCalledWith('Done!');
+	});
+
+	it('fails to return outside of a subroutine', () => {
+		// prettier-ignore
+		const script = new Script([
+			{ return: null },
+		]);
+		expect(() => script.step()).toThrowError(
+			expect.objectContaining({
+				name: 'ScriptError',
+				message: 'Unable to return outside of a subroutine',
+				path: [0],
+			}),
+		);
+	});
+
+	it('implements `while` command', () => {
+		const script = new Script([
+			{ set: { name: 'i', value: 0 } },
+			{
+				while: {
+					cond: Script.exp('i < 3'),
+					do: [
+						{ print: Script.fmt('Hello {{ i }}!') },
+						{ set: { name: 'i', value: Script.exp('i + 1') } },
+					],
+				},
+			},
+			{ print: 'Done!' },
+		]);
+		const log = spyOnLog();
+		while (!script.isDone()) {
+			script.step();
+		}
+		expect(log.mock.calls).toEqual([['Hello 0!'], ['Hello 1!'], ['Hello 2!'], ['Done!']]);
+	});
+
+	it('implements `repeat` command', () => {
+		const script = new Script([
+			{ set: { name: 'times', value: 2 } },
+			{
+				repeat: {
+					times: Script.exp('times'),
+					do: [{ repeat: { times: 2, do: [{ print: 'Hello!' }] } }, { print: 'World!' }],
+				},
+			},
+			{ repeat: { times: 0, do: [{ print: 'Unreachable!' }] } },
+		]);
+		const log = spyOnLog();
+		while (!script.isDone()) {
+			script.step();
+		}
+		expect(log.mock.calls).toEqual([
+			['Hello!'],
+			['Hello!'],
+			['World!'],
+			['Hello!'],
+			['Hello!'],
+			['World!'],
+		]);
+	});
+
+	it('implements `each` command', () => {
+		const script = new Script([
+			{
+				each: {
+					in: Script.exp('["A", "B", "C"]'),
+					as: 'letter',
+					do: [{ print: Script.fmt('Hello {{ letter }}!') }],
+				},
+			},
+		]);
+		const log = spyOnLog();
+		while (!script.isDone()) {
+			script.step();
+		}
+		expect(log.mock.calls).toEqual([['Hello A!'], ['Hello B!'], ['Hello C!']]);
+	});
+
+	it('implements loop save and load functionality', () => {
+		// prettier-ignore
+		const source: ScriptSource = [
+			{
+				each: {
+					in: ['A', 'B', 'C'],
+					as: 'letter',
+					do: [{ print: Script.fmt('Hello {{ letter }}!') }],
+				},
+			},
+			{ print: 'Done!' },
+		];
+
+		const log = spyOnLog();
+		const scriptOrigin = new Script(source);
+		scriptOrigin.step(); // each
+		scriptOrigin.step(); // print
+		scriptOrigin.step(); // print
+		expect(log).toHaveBeenLastCalledWith('Hello B!');
+		const save = scriptOrigin.save();
+
+		const scriptLoaded = new Script(source).load(save);
+		scriptLoaded.step(); // print
+		expect(log).toHaveBeenLastCalledWith('Hello C!');
+		scriptLoaded.step(); // print
+		expect(log).toHaveBeenLastCalledWith('Done!');
+		expect(scriptLoaded.isDone()).toBe(true);
+	});
+
+	it('fails to run a runaway loop', () => {
+		const script = new Script([
+			{ label: 'start' },
+			{ while: { cond: true, do: [{ set: { name: 'a', value: 1 } }] } },
+		]);
+		expect(() => {
+			while (!script.isDone()) {
+				script.step();
+			}
+		}).toThrowError(
+			expect.objectContaining({
+				name: 'ScriptError',
+				message: 'Loop iteration limit (10000) exceeded',
+				path: [1],
+			}),
+		);
+	});
+
 	it('implements `eval` command', () => {
 		// prettier-ignore
 		const script = new Script([
 			{ eval: 'this.a = 150' }, 
 			{ eval: 'this.b = 100' },
-		]);
+		], { expressions: 'legacy' });
 		script.step();
 		expect(script.getVar('a')).toBe(150);
 		script.step();
 		expect(script.getVar('b')).toBe(100);
 	});
 
+	it('fails to run `eval` command outside of legacy mode', () => {
+		// prettier-ignore
+		const script = new Script([
+			{ eval: 'this.a = 150' },
+		]);
+		expect(() => script.step()).toThrowError(
+			expect.objectContaining({
+				name: 'ScriptError',
+				message: 'Command "eval" is available only in legacy mode',
+				path: [0],
+			}),
+		);
+	});
+
 	it('implements `print` command', () => {
 		const script = new Script([
 			{ print: 'Hello World!' },
@@ -276,4 +545,293 @@ describe('Script', () => {
 		script.step();
 		expect(listener).not.toHaveBeenCalled();
 	});
+
+	it('implements custom commands', () => {
+		const script = new Script([
+			{ greet: { name: Script.fmt('{{ world }}') } },
+			{ greetRaw: { name: Script.fmt('{{ world }}') } },
+		]);
+		const log = spyOnLog();
+		script.setVar('world', 'World');
+		script.define('greet', {
+			schema: zod.object({ name: zod.string() }),
+			run: ({ name }, script) => {
+				console.log(`Hello ${name} from ${script.getVar('world')}!`);
+			},
+		});
+		script.define('greetRaw', {
+			mode: 'raw',
+			schema: zod.object({ name: zod.any() }),
+			run: ({ name }) => {
+				console.log(name);
+			},
+		});
+		script.step();
+		expect(log).toHaveBeenLastCalledWith('Hello World from World!');
+		script.step();
+		expect(log).toHaveBeenLastCalledWith(Script.fmt('{{ world }}'));
+	});
+
+	it('fails to execute an unknown command', () => {
+		// prettier-ignore
+		const script = new Script([
+			{ unknown: 'test' },
+		]);
+		expect(() => script.step()).toThrowError(
+			expect.objectContaining({
+				name: 'ScriptError',
+				message: 'Unknown command: unknown',
+				path: [0],
+			}),
+		);
+	});
+
+	it('implements `let` command', () => {
+		const script = new Script([
+			{ set: { name: 'a', value: 'global' } },
+			{
+				if: {
+					cond: true,
+					then: [
+						{ let: { name: 'a', value: 'local' } },
+						{ print: Script.fmt('{{ a }}') },
+						{ set: { name: 'a', value: 'updated' } },
+						{ print: Script.fmt('{{ a }}') },
+					],
+				},
+			},
+			{ print: Script.fmt('{{ a }}') },
+		]);
+		const log = spyOnLog();
+		while (!script.isDone()) {
+			script.step();
+		}
+		expect(log.mock.calls).toEqual([['local'], ['updated'], ['global']]);
+	});
+
+	it('implements `let` command with save and load', () => {
+		// prettier-ignore
+		const source: ScriptSource = [
+			{ call: 'sub' },
+			{ print: Script.fmt('{{ vars.a }}') },
+			{ throw: 'end' },
+			{ label: 'sub' },
+				{ let: { name: 'a', value: 'local' } },
+				{ print: 'Saved!' },
+				{ print: Script.fmt('{{ a }}') },
+				{ return: null },
+		];
+
+		const log = spyOnLog();
+		const scriptOrigin = new Script(source);
+		scriptOrigin.step(); // call
+		scriptOrigin.step(); // label
+		scriptOrigin.step(); // let
+		scriptOrigin.step(); // print
+		const save = scriptOrigin.save();
+
+		const scriptLoaded = new Script(source).load(save);
+		scriptLoaded.step(); // print
+		expect(log).toHaveBeenLastCalledWith('local');
+		scriptLoaded.step(); // return
+		scriptLoaded.step(); // print
+		expect(log).toHaveBeenLastCalledWith('null');
+	});
+
+	it('hides caller local variables inside of a subroutine', () => {
+		// prettier-ignore
+		const script = new Script([
+			{ let: { name: 'a', value: 'local' } },
+			{ call: 'sub' },
+			{ throw: 'end' },
+			{ label: 'sub' },
+				{ print: Script.fmt('{{ vars.a }}') },
+				{ return: null },
+		]);
+		const log = spyOnLog();
+		script.step(); // let
+		script.step(); // call
+		script.step(); // label
+		script.step(); // print
+		expect(log).toHaveBeenLastCalledWith('null');
+	});
+
+	it('implements variable declarations', () => {
+		const script = new Script(
+			[
+				{ set: { name: 'a', value: 5 } },
+				{ set: { name: 'b', value: 'unknown' } },
+				{ set: { name: 'a', value: 'text' } },
+			],
+			{
+				declare: {
+					a: { type: 'number', min: 0, max: 10 },
+					b: { type: 'string', values: ['x', 'y'] },
+					c: { type: 'boolean', default: true },
+					d: 'array',
+				},
+			},
+		);
+		expect(script.getVar('a')).toBe(0);
+		expect(script.getVar('b')).toBe('x');
+		expect(script.getVar('c')).toBe(true);
+		expect(script.getVar('d')).toEqual([]);
+		script.step();
+		expect(script.getVar('a')).toBe(5);
+		expect(() => script.step()).toThrowError(
+			expect.objectContaining({
+				name: 'ScriptError',
+				message: 'Invalid value of "b": Expected one of: "x", "y"',
+				path: [1],
+			}),
+		);
+		expect(() => script.step()).toThrowError(
+			expect.objectContaining({
+				name: 'ScriptError',
+				message: 'Invalid value of "a": Expected number, received string',
+				path: [2],
+			}),
+		);
+	});
+
+	it('validates locals shadowing declared variables', () => {
+		// prettier-ignore
+		const source: ScriptSource = [
+			{ label: 'sub' },
+				{ let: { name: 'a', value: 5 } },
+				{ print: 'Saved!' },
+				{ set: { name: 'a', value: 'text' } },
+				{ let: { name: 'b', value: 'text' } },
+		];
+		const script = new Script(source);
+		script.step(); // label
+		script.step(); // let
+		script.step(); // print
+		const save = script.save();
+
+		const declare = { a: 'number', b: 'number' } as const;
+		const loaded = new Script(source, { declare }).load(save);
+		expect(loaded.getVar('a')).toBe(5);
+		expect(JSON.parse(loaded.save()).scope).toMatchObject({ a: 0, b: 0 });
+		expect(() => loaded.step()).toThrowError(
+			'Invalid value of "a": Expected number, received string',
+		);
+		expect(() => loaded.step()).toThrowError(
+			'Invalid value of "b": Expected number, received string',
+		);
+	});
+
+	it('implements reserved global namespace', () => {
+		const script = new Script([
+			{ print: Script.fmt('{{ engine.test }}') },
+			{ set: { name: 'engine', value: {} } },
+			{ let: { name: 'engine', value: {} } },
+		]);
+		const log = spyOnLog();
+		script['setGlobal']('test', 'Hello!');
+		script.step();
+		expect(log).toHaveBeenLastCalledWith('Hello!');
+		expect(script.getGlobal('test')).toBe('Hello!');
+		expect(() => script.step()).toThrowError('Variable "engine" is reserved');
+		expect(() => script.step()).toThrowError('Variable "engine" is reserved');
+	});
+
+	it('implements persistent variable namespace', () => {
+		const persistent = { endingA: false };
+		const source: ScriptSource = [
+			{ set: { name: 'global.endingA', value: true } },
+			{ print: Script.fmt('{{ global.endingA }}') },
+			{ if: { cond: Script.exp('global.endingA'), then: [{ print: 'Unlocked' }] } },
+			{ set: { name: 'global', value: {} } },
+		];
+		const script = new Script(source, { persistent });
+		const log = spyOnLog();
+		const state = script.save();
+		script.step();
+		script.step();
+		expect(log).toHaveBeenLastCalledWith('true');
+		script.step();
+		script.step();
+		expect(log).toHaveBeenLastCalledWith('Unlocked');
+		expect(persistent).toEqual({ endingA: true });
+		expect(() => script.step()).toThrowError('Variable "global" is reserved');
+		script.load(state);
+		expect(script.getVar('global.endingA')).toBe(true);
+		expect(JSON.parse(script.save()).scope).not.toHaveProperty('global');
+	});
+
+	it('implements label namespaces', () => {
+		const chapter = Script.namespace(
+			[
+				{ label: 'start' },
+				{ if: 'true', then: [{ label: 'inner' }, { jump: 'start' }] },
+				{ call: 'inner' },
+				{ jump: 'end' },
+			],
+			'chapter2',
+		);
+		expect(chapter).toEqual([
+			{ label: 'chapter2.start' },
+			{ if: 'true', then: [{ label: 'chapter2.inner' }, { jump: 'chapter2.start' }] },
+			{ call: 'chapter2.inner' },
+			{ jump: 'end' },
+		]);
+	});
+
+	it('implements versioned saves with migrations', () => {
+		const source: ScriptSource = [{ print: 'Hello!' }];
+		const save = JSON.parse(new Script(source, { game: 'a' }).save());
+		expect(save).toMatchObject({ version: SCRIPT_STATE_VERSION, game: 'a' });
+		expect(save.fingerprint).toEqual(expect.any(String));
+
+		expect(() =>
+			new Script(source, { game: 'b' }).load(JSON.stringify(save)),
+		).toThrowError('Unable to load save: it belongs to another game ("a")');
+		expect(() =>
+			new Script(source).load(JSON.stringify({ ...save, version: 99 })),
+		).toThrowError('Unable to load save: format version 99 is not supported');
+		expect(() => new Script(source).load('{')).toThrowError(/^Unable to load save: /);
+
+		const legacy = JSON.stringify({ scope: { hello: 'Hello!' }, stack: save.stack });
+		const script = new Script(source);
+		script.migration(0, (state) => ({
+			...state,
+			scope: { ...(state.scope as object), migrated: true },
+		}));
+		script.load(legacy);
+		expect(script.getVar('hello')).toBe('Hello!');
+		expect(script.getVar('migrated')).toBe(true);
+		expect(script.getGlobal('test')).toBe(undefined);
+	});
+
+	it('diagnoses stack frames missing from the updated source', () => {
+		const source: ScriptSource = [
+			{ call: 'sub' },
+			{ jump: 'end' },
+			{ label: 'sub' },
+			{ if: { cond: true, then: [{ label: 'inner' }, { print: 'A' }, { print: 'B' }] } },
+			{ return: null },
+			{ label: 'end' },
+		];
+		spyOnLog();
+		const origin = new Script(source);
+		Array.from({ length: 5 }, () => origin.step());
+		const save = origin.save();
+
+		const updated = structuredClone(source);
+		updated[3] = { if: { cond: true } };
+		expect(() => new Script(updated).load(save)).toThrowError(
+			expect.objectContaining({
+				name: 'ScriptError',
+				message:
+					'Unable to load save: block near label "inner" at "3.if.then" - ' +
+					'block is not found, the script has changed since the game was saved',
+				path: [3, 'if', 'then'],
+			}),
+		);
+
+		origin.patch(updated);
+		origin.step();
+		expect(origin.isDone()).toBe(false);
+	});
 });
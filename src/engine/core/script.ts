@@ -2,12 +2,29 @@
  * Sealed Sins, 2023-2024.
  */
 import traverse from 'traverse';
-import zod, { ZodSchema } from 'zod';
+import { sha1 as hash } from 'object-hash';
+import zod, { ZodSchema, ZodTypeAny } from 'zod';
 import { fromZodError } from 'zod-validation-error';
-import { get, mapValues, isPlainObject, isArray, isEqual } from 'lodash';
-import { Serializer, Serialize, SerializableEntity, Json } from '../utils/serialize';
+import {
+	get,
+	last,
+	mapValues,
+	isObject,
+	isPlainObject,
+	isArray,
+	isEqual,
+	findLast,
+} from 'lodash';
+import {
+	Serializer,
+	Serialize,
+	SerializableEntity,
+	SerializableObject,
+	Json,
+} from '../utils/serialize';
+import { isRecord } from '../utils/object';
 import { Stack, StackFrame } from './stack';
-import { Scope } from './scope';
+import { Scope, ScopeMode } from './scope';
 
 /**
  * Script source code.
@@ -42,18 +59,50 @@ export type ScriptPath = (
 	Array<string | number>
 );
 
+/**
+ * Script stack frame metadata.
+ * Marks frames that require special handling (e.g., subroutine calls) or hold local variables.
+ */
+// prettier-ignore
+export type ScriptFrameMeta = { vars?: Record<string, ScriptValue> } & (
+	| { type: 'block' }
+	| { type: 'call', label: string }
+	| { type: 'loop', path: ScriptPath, iteration: number }
+);
+
+/**
+ * Script variable declaration.
+ */
+// prettier-ignore
+export type ScriptDeclaration = (
+	zod.infer<typeof ScriptDeclarationSchema>
+);
+
 /**
  * Script save state.
+ * Stamped with the format version, the game ID and the source fingerprint.
  * @internal
  */
 // prettier-ignore
 export type ScriptState = {
+	version: number;
+	game?: string;
+	fingerprint?: string;
 	scope: Record<string, ScriptValue>;
-	stack: Array<StackFrame<ScriptNode> & {
+	stack: Array<StackFrame<ScriptNode, ScriptFrameMeta> & {
 		path: ScriptPath;
 	}>;
 }
 
+/**
+ * Script save state migration.
+ * Converts state of a given format version into the next version.
+ */
+// prettier-ignore
+export type ScriptMigration = (
+	(state: Record<string, unknown>) => Record<string, unknown>
+);
+
 /**
  * Script event.
  * @typeParam T - Event data type.
@@ -71,6 +120,111 @@ export type ScriptListener<T = unknown> = {
 	(event: ScriptEvent<T>): void;
 };
 
+/**
+ * Script options.
+ */
+// prettier-ignore
+export type ScriptOptions = {
+	expressions?: ScopeMode;
+	declare?: Record<string, ScriptDeclaration>;
+	game?: string;
+	persistent?: Record<string, ScriptValue>;
+};
+
+/**
+ * Script command definition.
+ * Arguments are evaluated before validation, unless `raw` mode is used.
+ * Commands containing code blocks list their paths (relative to arguments) in `blocks`.
+ * @typeParam T - Command arguments type.
+ * @typeParam S - Script type.
+ */
+// prettier-ignore
+export type ScriptCommand<T = unknown, S extends Script = Script> = {
+	mode?: 'eval' | 'raw';
+	schema: ZodSchema<T>;
+	blocks?: (args: T) => Array<ScriptPath>;
+	run: (args: T, script: S, node: ScriptNode) => void;
+};
+
+/**
+ * Maximum number of iterations a single loop is allowed to run.
+ * @internal
+ */
+export const SCRIPT_LOOP_LIMIT = 10000;
+
+/**
+ * Current save state format version.
+ * Saves of older versions are migrated on load, versionless saves are treated as version 0.
+ */
+export const SCRIPT_STATE_VERSION = 2;
+
+/**
+ * Reserved variable namespace for engine globals.
+ * Scripts are allowed to read it, but not to overwrite it.
+ */
+export const SCRIPT_GLOBALS = 'engine';
+
+/**
+ * Variable namespace for persistent variables (e.g., `global.endingA`).
+ * Kept outside of the script state, so they survive loads and new playthroughs.
+ */
+export const SCRIPT_PERSISTENT = 'global';
+
+/**
+ * Node path lookups, built once per script source.
+ */
+const nodePaths = new WeakMap<ScriptSource, WeakMap<object, ScriptPath>>();
+
+/**
+ * Script variable type schema.
+ */
+export const ScriptTypeSchema = zod.enum([
+	'any',
+	'string',
+	'number',
+	'boolean',
+	'array',
+	'object',
+]);
+
+/**
+ * Script variable declaration schema.
+ * Either a plain type name or a type with its constraints and default value.
+ */
+export const ScriptDeclarationSchema = zod.union([
+	ScriptTypeSchema,
+	zod
+		.object({
+			type: ScriptTypeSchema,
+			default: zod.any().optional(),
+			nullable: zod.boolean().optional(),
+			min: zod.number().optional(),
+			max: zod.number().optional(),
+			values: zod.array(zod.any()).optional(),
+		})
+		.strict(),
+]);
+
+/**
+ * Script save state schema.
+ * Checked after migrations are applied.
+ * @internal
+ */
+export const ScriptStateSchema = zod.object({
+	version: zod.literal(SCRIPT_STATE_VERSION),
+	game: zod.string().optional(),
+	fingerprint: zod.string().optional(),
+	scope: zod.record(zod.string(), zod.any()),
+	stack: zod.array(
+		zod.object({
+			path: zod.array(zod.union([zod.string(), zod.number()])),
+			code: zod.array(zod.any()),
+			programCounter: zod.number().int().nonnegative(),
+			meta: zod.any().optional(),
+		}),
+	),
+});
+
 /**
  * Script error.
  */
@@ -118,16 +272,156 @@ export class ScriptFmt implements SerializableEntity {
  */
 export class Script {
 	protected subs: Array<ScriptListener<unknown>> = [];
-	protected scope = new Scope<ScriptValue>();
-	protected stack = new Stack<ScriptNode>();
+	protected commands = new Map<string, ScriptCommand<unknown, Script>>();
+	protected scope: Scope<ScriptValue>;
+	protected stack = new Stack<ScriptNode, ScriptFrameMeta>();
+	protected declarations = new Map<string, ZodTypeAny>();
+	protected migrations = new Map<number, Array<ScriptMigration>>();
+	protected persistent: Record<string, ScriptValue>;
+	private fingerprint?: string;
 
 	private serializer = new Serializer({
 		ScriptFmt,
 		ScriptExp,
 	});
 
-	constructor(protected source: ScriptSource = []) {
+	// prettier-ignore
+	constructor(protected source: ScriptSource = [], protected options: ScriptOptions = {}) {
+		this.scope = new Scope<ScriptValue>({}, options.expressions);
+		this.scope.set(SCRIPT_GLOBALS, {});
+		this.persistent = options.persistent ?? {};
 		this.stack.push(source);
+		this.declare(options.declare ?? {});
+
+		this.migration(0, (state) => {
+			if (!isRecord(state.scope)) {
+				return state;
+			}
+			const scope = { [SCRIPT_GLOBALS]: {}, ...state.scope };
+			return { ...state, scope };
+		});
+
+		// Format version 2 only changed the state of scenes.
+		this.migration(1, (state) => state);
+
+		this.define('if', {
+			mode: 'raw',
+			schema: zod.object({
+				cond: zod.any(),
+				then: zod.array(zod.any()).optional(),
+				else: zod.array(zod.any()).optional(),
+			}),
+			blocks: (args) => {
+				return [['then'], ['else']].filter(([key]) => key! in args);
+			},
+			run: ({ cond, ...branch }) => {
+				const isTrue = !!this.eval(cond);
+				if (isTrue && branch.then) {
+					this.stack.push(branch.then);
+				}
+				if (!isTrue && branch.else) {
+					this.stack.push(branch.else);
+				}
+			},
+		});
+
+		for (const loop of ['while', 'repeat', 'each']) {
+			this.define(loop, {
+				mode: 'raw',
+				schema: zod.object({ do: zod.array(zod.any()) }).passthrough(),
+				blocks: () => [['do']],
+				run: (args, _, node) => {
+					const path = this.path(node)!;
+					const vars = {};
+					if (this.iterate(node, 0, vars)) {
+						this.stack.push(args.do, { type: 'loop', path, iteration: 0, vars });
+					}
+				},
+			});
+		}
+
+		this.define('label', {
+			schema: zod.string(),
+			run: () => {
+				return;
+			},
+		});
+
+		this.define('jump', {
+			schema: zod.string(),
+			run: (label) => {
+				this.jump(label);
+			},
+		});
+
+		this.define('call', {
+			schema: zod.string(),
+			run: (label) => {
+				this.call(label);
+			},
+		});
+
+		this.define('return', {
+			mode: 'raw',
+			schema: zod.null(),
+			run: () => {
+				this.return();
+			},
+		});
+
+		this.define('eval', {
+			schema: zod.string(),
+			run: (code) => {
+				if (this.scope.mode !== 'legacy') {
+					throw new ScriptError(`Command "eval" is available only in legacy mode`);
+				}
+				new Function(code).call(this.scope.dump());
+			},
+		});
+
+		this.define('print', {
+			schema: zod.string(),
+			run: (text) => {
+				console.log(text);
+			},
+		});
+
+		this.define('throw', {
+			schema: zod.string(),
+			run: (text) => {
+				throw new ScriptError(text);
+			},
+		});
+
+		this.define('set', {
+			schema: zod.object({
+				name: zod.string(),
+				value: zod.any(),
+			}),
+			run: ({ name, value }) => {
+				this.setVar(name, value);
+			},
+		});
+
+		this.define('let', {
+			schema: zod.object({
+				name: zod.string(),
+				value: zod.any(),
+			}),
+			run: ({ name, value }) => {
+				this.setLocal(name, value);
+			},
+		});
+
+		this.define('emit', {
+			schema: zod.object({
+				type: zod.string(),
+				data: zod.any(),
+			}),
+			run: ({ type, data }) => {
+				this.emit(type, data);
+			},
+		});
 	}
 
 	/**
@@ -148,30 +442,143 @@ export class Script {
 		return new ScriptFmt(fmt);
 	}
 
+	/**
+	 * Prefixes labels of the given `source` with a namespace (e.g., `chapter2.start`).
+	 * Jumps and calls targeting these labels are prefixed as well, other targets are kept.
+	 * Source is modified in place.
+	 * @param source - Source to process.
+	 * @param namespace - Namespace to apply.
+	 * @returns Processed source.
+	 */
+	static namespace(source: ScriptSource, namespace: string) {
+		const tree = traverse(source);
+		const named = (node: unknown, types: Array<string>): [string, string] | null => {
+			if (!isPlainObject(node) || Object.keys(node as object).length !== 1) return null;
+			const [type, name] = Object.entries(node as object)[0]!;
+			return types.includes(type) && typeof name === 'string' ? [type, name] : null;
+		};
+		const labels = new Set<string>();
+		tree.forEach((node) => {
+			const found = named(node, ['label']);
+			if (found) labels.add(found[1]);
+		});
+		tree.forEach(function (node) {
+			const found = named(node, ['label', 'jump', 'call']);
+			if (found && labels.has(found[1])) {
+				this.update({ [found[0]]: `${namespace}.${found[1]}` }, true);
+			}
+		});
+		return source;
+	}
+
+	/**
+	 * Returns command definition.
+	 * @param name - Command name.
+	 * @returns Command definition or undefined.
+	 */
+	public getCommand(name: string) {
+		return this.commands.get(name);
+	}
+
 	/**
 	 * Returns script execution state.
 	 * @returns Boolean indicating execution status.
 	 */
 	public isDone() {
-		return this.stack.isEmpty();
+		const frames = this.stack.dump();
+		return this.stack.isEmpty() && !frames.some((frame) => frame.meta?.type === 'loop');
 	}
 
 	/**
 	 * Gets script variable.
+	 * Local variables of the current block take precedence over global ones.
 	 * @param name - Variable name.
 	 * @returns Variable value.
 	 */
 	public getVar<T extends ScriptValue>(name: string) {
-		return this.scope.get<T>(name);
+		const key = this.persistentKey(name);
+		if (key) {
+			return this.persistent[key] as T;
+		}
+		const vars = this.locals().find((vars) => vars.hasOwnProperty(name));
+		return (vars ? vars[name] : this.scope.get(name)) as T;
 	}
 
 	/**
 	 * Sets script variable.
+	 * Existing local variables are updated in place, declared variables are validated.
+	 * Persistent variables are written to the persistent record.
 	 * @param name - Variable name.
 	 * @param value - Variable value.
 	 */
 	public setVar<T extends ScriptValue>(name: string, value: T) {
-		return this.scope.set<T>(name, value);
+		const key = this.persistentKey(name);
+		if (key) {
+			this.persistent[key] = value;
+			return;
+		}
+		this.reserved(name);
+		this.declared(name, value);
+		const vars = this.locals().find((vars) => vars.hasOwnProperty(name));
+		if (vars) {
+			vars[name] = value;
+			return;
+		}
+		this.scope.set<T>(name, value);
+	}
+
+	/**
+	 * Sets local variable of the current block.
+	 * Locals shadowing declared variables are validated against their declarations.
+	 * @param name - Variable name.
+	 * @param value - Variable value.
+	 */
+	public setLocal<T extends ScriptValue>(name: string, value: T) {
+		this.reserved(name);
+		this.declared(name, value);
+		const frame = last(this.stack.dump());
+		if (!frame) {
+			throw new ScriptError(`Unable to set local variable outside of a block`);
+		}
+		frame.meta = frame.meta ?? { type: 'block' };
+		frame.meta.vars = { ...frame.meta.vars, [name]: value };
+	}
+
+	/**
+	 * Gets persistent variables (`global.*` namespace).
+	 * @returns Persistent variable record.
+	 */
+	public getPersistent() {
+		return this.persistent;
+	}
+
+	/**
+	 * Gets engine global variable.
+	 * @param name - Variable name.
+	 * @returns Variable value.
+	 */
+	public getGlobal<T extends ScriptValue>(name: string) {
+		const globals = this.scope.get<Record<string, ScriptValue>>(SCRIPT_GLOBALS);
+		return globals[name] as T;
+	}
+
+	/**
+	 * Sets engine global variable.
+	 * @param name - Variable name.
+	 * @param value - Variable value.
+	 */
+	protected setGlobal<T extends ScriptValue>(name: string, value: T) {
+		const globals = this.scope.get<Record<string, ScriptValue>>(SCRIPT_GLOBALS);
+		globals[name] = value;
+	}
+
+	/**
+	 * Defines a new command (or replaces an existing one).
+	 * @param name - Command name.
+	 * @param command - Command definition.
+	 */
+	public define<T>(name: string, command: ScriptCommand<T, this>) {
+		this.commands.set(name, command as ScriptCommand<unknown, Script>);
 	}
 
 	/**
@@ -200,14 +607,26 @@ export class Script {
 		};
 	}
 
+	/**
+	 * Registers save state migration from the given format `version` to the next one.
+	 * Migrations of the same version run in the registration order.
+	 * @param version - Format version to migrate from.
+	 * @param migration - Migration.
+	 */
+	public migration(version: number, migration: ScriptMigration) {
+		this.migrations.set(version, [...(this.migrations.get(version) ?? []), migration]);
+	}
+
 	/**
 	 * Patches script with a new source.
+	 * Frames of the blocks removed from the source are dropped.
 	 * @param source - Updated source.
 	 */
 	public patch(source: ScriptSource) {
 		const state = this.save();
 		this.source = source;
-		this.load(state);
+		this.fingerprint = undefined;
+		this.restore(state, true);
 	}
 
 	/**
@@ -217,39 +636,137 @@ export class Script {
 	public save() {
 		const scope = this.scope.dump();
 		const stack = this.stack.dump().map((x) => ({ path: this.path(x.code)!, ...x }));
-		const state = { scope, stack } satisfies ScriptState;
+		this.fingerprint = this.fingerprint ?? hash(this.source);
+		const state = {
+			version: SCRIPT_STATE_VERSION,
+			...(this.options.game ? { game: this.options.game } : {}),
+			fingerprint: this.fingerprint,
+			scope,
+			stack,
+		} satisfies ScriptState;
 		return this.serializer.stringify(state);
 	}
 
 	/**
-	 * Loads script state.
+	 * Loads script state, migrating it from older format versions.
 	 * @param state - State to load.
 	 * @returns Script.
+	 * @throws ScriptError describing why the state can not be loaded.
 	 */
 	public load(state: string) {
-		try {
-			const { scope, stack } = this.serializer.parse<ScriptState>(state);
-			this.scope = new Scope<ScriptValue>(scope);
-			this.stack = new Stack<ScriptNode>();
-			for (const { path, code, programCounter } of stack) {
-				const updatedCode = this.node(path) as Array<unknown>;
-				if (!updatedCode) {
+		return this.restore(state, false);
+	}
+
+	/**
+	 * Loads script state.
+	 * @param state - State to load.
+	 * @param lenient - Drop frames of missing blocks instead of throwing.
+	 * @returns Script.
+	 * @internal
+	 */
+	protected restore(state: string, lenient: boolean) {
+		const { scope, stack, fingerprint } = this.migrate(state);
+		const frames = new Stack<ScriptNode, ScriptFrameMeta>();
+		for (const { path, code, programCounter, meta } of stack) {
+			const updatedCode = this.node(path);
+			if (!isArray(updatedCode)) {
+				if (lenient) {
 					continue;
 				}
-				const frame = this.stack.push(code);
-				frame.programCounter = programCounter;
-				Stack.patch(frame, updatedCode);
+				const changed = fingerprint && fingerprint !== hash(this.source);
+				const reason = [
+					updatedCode === null ? 'block is not found' : 'path does not point to a block',
+					...(changed ? ['the script has changed since the game was saved'] : []),
+				];
+				const where = this.describe(code, meta);
+				throw new ScriptError(
+					`Unable to load save: ${where} at "${path.join('.')}" - ${reason.join(', ')}`,
+					path,
+				);
 			}
-			return this;
+			const frame = frames.push(code, meta);
+			frame.programCounter = programCounter;
+			Stack.patch(frame, updatedCode);
+		}
+		this.scope = new Scope<ScriptValue>(scope, this.options.expressions);
+		this.stack = frames;
+		this.declare(this.options.declare ?? {});
+		return this;
+	}
+
+	/**
+	 * Parses script state, applying migrations up to the current format version.
+	 * @param state - State to parse.
+	 * @returns Script state.
+	 * @internal
+	 */
+	protected migrate(state: string) {
+		let data: Record<string, unknown>;
+		try {
+			data = this.serializer.parse<SerializableObject>(state);
 		} catch (err) {
-			throw new ScriptError(`Error loading save - it may be broken or unsupported.`);
+			throw new ScriptError(`Unable to load save: ${(err as Error).message}`);
+		}
+		if (!isPlainObject(data)) {
+			throw new ScriptError(`Unable to load save: state is not an object`);
+		}
+		const game = this.options.game;
+		if (game && data.game && data.game !== game) {
+			throw new ScriptError(
+				`Unable to load save: it belongs to another game ("${data.game}")`,
+			);
+		}
+		const initial: unknown = data.version ?? 0;
+		if (typeof initial !== 'number' || initial > SCRIPT_STATE_VERSION) {
+			throw new ScriptError(
+				`Unable to load save: format version ${initial} is not supported`,
+			);
 		}
+		for (let version = initial; version < SCRIPT_STATE_VERSION; version++) {
+			const migrations = this.migrations.get(version);
+			if (!migrations) {
+				throw new ScriptError(
+					`Unable to load save: no migration from format version ${version}`,
+				);
+			}
+			try {
+				data = migrations.reduce((data, migration) => migration(data), data);
+			} catch (err) {
+				const text = (err as Error).message;
+				throw new ScriptError(
+					`Unable to load save: migration from version ${version} failed - ${text}`,
+				);
+			}
+			data = { ...data, version: version + 1 };
+		}
+		const validation = ScriptStateSchema.safeParse(data);
+		if (!validation.success) {
+			const { message: text } = fromZodError(validation.error, { prefix: null });
+			throw new ScriptError(`Unable to load save: ${text}`);
+		}
+		return data as ScriptState;
+	}
+
+	/**
+	 * Describes saved stack frame for load diagnostics.
+	 * @param code - Saved frame code.
+	 * @param meta - Saved frame metadata.
+	 * @returns Frame description.
+	 * @internal
+	 */
+	protected describe(code: Array<ScriptNode>, meta?: ScriptFrameMeta) {
+		const label = code
+			.map((node) => (isObject(node) && 'label' in node ? node.label : null))
+			.find((label): label is string => typeof label === 'string');
+		const near = label ? ` near label "${label}"` : '';
+		return meta?.type === 'loop' ? `loop${near} block` : `block${near}`;
 	}
 
 	/**
 	 * Executes the next script step.
 	 */
 	public step() {
+		this.settle();
 		const slice = this.stack.pull();
 		if (!slice) {
 			return;
@@ -265,19 +782,309 @@ export class Script {
 
 	/**
 	 * Jumps to the given `label`.
-	 * @remarks Labels are allowed only in the top-level code.
+	 * Nested blocks of the current subroutine (or the root code) are discarded.
+	 * Blocks enclosing the label are entered, so execution continues in them afterwards.
 	 * @param label - Label to jump.
 	 */
 	public jump(label: string) {
-		const targetIndex = this.source.findIndex((cmd) => isEqual(cmd, { label }));
-		if (targetIndex < 0) {
+		const path = this.find(label);
+		const frames = this.stack.dump();
+		let targetFrame = findLast(frames, (frame) => frame.code === this.source);
+		if (!targetFrame) {
+			this.stack.clear();
+			targetFrame = this.stack.push(this.source);
+		} else {
+			this.stack.unwind(targetFrame);
+		}
+		this.descend(targetFrame, path);
+	}
+
+	/**
+	 * Calls the given `label` as a subroutine.
+	 * Execution continues from the caller once the subroutine returns.
+	 * @param label - Label to call.
+	 */
+	public call(label: string) {
+		const path = this.find(label);
+		const callFrame = this.stack.push(this.source, { type: 'call', label });
+		this.descend(callFrame, path);
+	}
+
+	/**
+	 * Returns from the active subroutine, discarding all of its nested blocks.
+	 */
+	public return() {
+		const frames = this.stack.dump();
+		const callFrame = findLast(frames, (frame) => frame.meta?.type === 'call');
+		if (!callFrame) {
+			throw new ScriptError(`Unable to return outside of a subroutine`);
+		}
+		this.stack.unwind(callFrame);
+		this.stack.pop();
+	}
+
+	/**
+	 * Finds the given `label` path in the script source.
+	 * @param label - Label to search for.
+	 * @returns Label path.
+	 * @internal
+	 */
+	protected find(label: string) {
+		const tree = traverse(this.source);
+		const paths = tree.paths().filter((path) => {
+			return path.length > 0 && isEqual(tree.get(path), { label });
+		});
+		if (paths.length < 1) {
 			throw new ScriptError(`Label "${label}" is not found`);
 		}
-		if (this.stack.isEmpty()) {
-			this.stack.push(this.source);
+		if (paths.length > 1) {
+			throw new ScriptError(`Label "${label}" is defined more than once`);
+		}
+		return this.parsePath(paths[0]!);
+	}
+
+	/**
+	 * Points root `frame` to the given `path`, pushing a frame for each block along the way.
+	 * Enclosing frames are moved past their blocks, so they continue once the blocks are done.
+	 * @remarks Loops entered this way run their remaining body only once.
+	 * @param frame - Frame holding the top-level code.
+	 * @param path - Path to descend to.
+	 * @internal
+	 */
+	protected descend(frame: StackFrame<ScriptNode, ScriptFrameMeta>, path: ScriptPath) {
+		frame.programCounter = path[0] as number;
+		for (let depth = 1; depth < path.length - 1; depth++) {
+			const block = this.node(path.slice(0, depth + 1));
+			if (!isArray(block)) {
+				continue;
+			}
+			frame.programCounter++;
+			frame = this.stack.push(block);
+			frame.programCounter = path[depth + 1] as number;
+		}
+	}
+
+	/**
+	 * Declares typed global variables, assigning their default values to the global scope.
+	 * Variables that are already set are kept as is.
+	 * @param declarations - Variable declarations.
+	 * @internal
+	 */
+	protected declare(declarations: Record<string, ScriptDeclaration>) {
+		for (const [name, declaration] of Object.entries(declarations)) {
+			const { type, ...opts } = isPlainObject(declaration)
+				? (declaration as Exclude<ScriptDeclaration, string>)
+				: { type: declaration as Extract<ScriptDeclaration, string> };
+			let schema: ZodTypeAny = zod.any();
+			let value: ScriptValue = null;
+			switch (type) {
+				case 'string': {
+					schema = zod
+						.string()
+						.min(opts.min ?? 0)
+						.max(opts.max ?? Infinity);
+					value = '';
+					break;
+				}
+				case 'number': {
+					schema = zod
+						.number()
+						.min(opts.min ?? -Infinity)
+						.max(opts.max ?? Infinity);
+					value = opts.min ?? 0;
+					break;
+				}
+				case 'boolean': {
+					schema = zod.boolean();
+					value = false;
+					break;
+				}
+				case 'array': {
+					schema = zod
+						.array(zod.any())
+						.min(opts.min ?? 0)
+						.max(opts.max ?? Infinity);
+					value = [];
+					break;
+				}
+				case 'object': {
+					schema = zod.record(zod.any());
+					value = {};
+					break;
+				}
+			}
+			if (opts.values) {
+				const values = opts.values;
+				const text = `Expected one of: ${values
+					.map((v) => JSON.stringify(v))
+					.join(', ')}`;
+				schema = schema.refine((v) => values.some((x) => isEqual(x, v)), text);
+				value = values[0] ?? null;
+			}
+			if (opts.nullable) {
+				schema = schema.nullable();
+				value = null;
+			}
+			this.declarations.set(name, schema);
+			if (this.scope.get(name) === undefined) {
+				const initial = opts.hasOwnProperty('default') ? opts.default : value;
+				this.declared(name, initial);
+				this.scope.set(name, initial);
+			}
+		}
+	}
+
+	/**
+	 * Throws an error if the given value does not match the declaration of variable `name`.
+	 * @param name - Variable name.
+	 * @param value - Variable value.
+	 * @internal
+	 */
+	protected declared(name: string, value: ScriptValue) {
+		const schema = this.declarations.get(name);
+		const validation = schema?.safeParse(value);
+		if (validation && !validation.success) {
+			const { message: text } = fromZodError(validation.error, { prefix: null });
+			throw new ScriptError(`Invalid value of "${name}": ${text}`);
+		}
+	}
+
+	/**
+	 * Returns local variables visible from the current block, starting from the innermost one.
+	 * Locals of the caller are not visible inside of a subroutine.
+	 * @returns Local variable records.
+	 * @internal
+	 */
+	protected locals() {
+		const locals: Array<Record<string, ScriptValue>> = [];
+		for (const frame of this.stack.dump().reverse()) {
+			if (frame.meta?.vars) {
+				locals.push(frame.meta.vars);
+			}
+			if (frame.meta?.type === 'call') {
+				break;
+			}
+		}
+		return locals;
+	}
+
+	/**
+	 * Throws an error if the given variable `name` belongs to the reserved namespace.
+	 * @param name - Variable name.
+	 * @internal
+	 */
+	protected reserved(name: string) {
+		for (const namespace of [SCRIPT_GLOBALS, SCRIPT_PERSISTENT]) {
+			if (name === namespace || name.startsWith(`${namespace}.`)) {
+				throw new ScriptError(`Variable "${name}" is reserved`);
+			}
+		}
+	}
+
+	/**
+	 * Returns the key of a persistent variable (e.g., `endingA` of `global.endingA`).
+	 * @param name - Variable name.
+	 * @returns Persistent variable key (or undefined if the variable is not persistent).
+	 * @internal
+	 */
+	protected persistentKey(name: string) {
+		const prefix = `${SCRIPT_PERSISTENT}.`;
+		return name.startsWith(prefix) && name.length > prefix.length
+			? name.slice(prefix.length)
+			: undefined;
+	}
+
+	/**
+	 * Settles exhausted loop frames on top of the stack.
+	 * Each loop either proceeds to its next iteration or gets removed from the stack.
+	 * @internal
+	 */
+	protected settle() {
+		for (const frame of this.stack.dump().reverse()) {
+			if (frame.programCounter < frame.code.length) {
+				return;
+			}
+			if (frame.meta?.type !== 'loop') {
+				continue;
+			}
+			const meta = frame.meta;
+			this.stack.unwind(frame);
+			try {
+				while (frame.programCounter >= frame.code.length) {
+					if (meta.iteration + 1 >= SCRIPT_LOOP_LIMIT) {
+						throw new ScriptError(`Loop iteration limit (${SCRIPT_LOOP_LIMIT}) exceeded`);
+					}
+					const vars = {};
+					meta.vars = {};
+					if (!this.iterate(this.node(meta.path), meta.iteration + 1, vars)) {
+						break;
+					}
+					meta.vars = vars;
+					meta.iteration = meta.iteration + 1;
+					frame.programCounter = 0;
+				}
+			} catch (err: any) {
+				const text = err.message ?? err.toString();
+				throw new ScriptError(text, meta.path);
+			}
+			if (frame.programCounter < frame.code.length) {
+				return;
+			}
+			this.stack.pop();
+		}
+	}
+
+	/**
+	 * Evaluates loop `node` and checks whether its given `iteration` should be executed.
+	 * Loop variables (if any) are assigned to `vars` along the way.
+	 * @param node - Loop command.
+	 * @param iteration - Iteration index.
+	 * @param vars - Iteration local variables.
+	 * @returns Boolean indicating whether the iteration should be executed.
+	 * @internal
+	 */
+	protected iterate(
+		node: ScriptNode,
+		iteration: number,
+		vars: Record<string, ScriptValue>,
+	) {
+		const { type, args } = this.unpack(node);
+		switch (type) {
+			case 'while': {
+				const argSchema = zod.object({
+					cond: zod.any(),
+					do: zod.array(zod.any()),
+				});
+				const { cond } = this.validate(argSchema, args);
+				return !!this.eval(cond);
+			}
+			case 'repeat': {
+				const argSchema = zod.object({
+					times: zod.any(),
+					do: zod.array(zod.any()),
+				});
+				const { times } = this.validate(argSchema, args);
+				return iteration < this.validate(zod.number(), this.eval(times));
+			}
+			case 'each': {
+				const argSchema = zod.object({
+					in: zod.any(),
+					as: zod.string(),
+					do: zod.array(zod.any()),
+				});
+				const { in: list, as } = this.validate(argSchema, args);
+				const items = this.validate(zod.array(zod.any()), this.eval(list));
+				if (iteration >= items.length) {
+					return false;
+				}
+				this.reserved(as);
+				vars[as] = items[iteration];
+				return true;
+			}
+			default: {
+				throw new ScriptError(`Unknown loop: ${type}`);
+			}
 		}
-		const rootFrame = this.stack.dump()[0]!;
-		rootFrame.programCounter = targetIndex;
 	}
 
 	/**
@@ -296,11 +1103,15 @@ export class Script {
 
 	/**
 	 * Searches for the given `node` path in the script source.
+	 * Object nodes are looked up in a path index built on the first search in the source.
 	 * @params node - Node to search for.
 	 * @returns Node path or null.
-	 * @internal
 	 */
-	protected path(node: ScriptNode): ScriptPath | null {
+	public path(node: ScriptNode): ScriptPath | null {
+		if (isObject(node)) {
+			const path = this.paths().get(node);
+			return path ? [...path] : null;
+		}
 		const tree = traverse(this.source);
 		const path = tree.paths().find((path) => {
 			return Object.is(node, tree.get(path));
@@ -308,6 +1119,37 @@ export class Script {
 		if (!path) {
 			return null;
 		}
+		return this.parsePath(path);
+	}
+
+	/**
+	 * Gets the path index of object nodes in the script source, building it if needed.
+	 * @returns Paths by node.
+	 * @internal
+	 */
+	protected paths() {
+		let paths = nodePaths.get(this.source);
+		if (!paths) {
+			paths = new WeakMap();
+			const tree = traverse(this.source);
+			for (const path of tree.paths()) {
+				const node = tree.get(path);
+				if (isObject(node) && !paths.has(node)) {
+					paths.set(node, this.parsePath(path));
+				}
+			}
+			nodePaths.set(this.source, paths);
+		}
+		return paths;
+	}
+
+	/**
+	 * Converts traverse path into the script node path.
+	 * @param path - Path to convert.
+	 * @returns Node path with numeric indices.
+	 * @internal
+	 */
+	protected parsePath(path: Array<string>): ScriptPath {
 		return path.map((index) => {
 			const numericIndex = parseInt(index);
 			return isNaN(numericIndex) ? index : numericIndex;
@@ -346,6 +1188,22 @@ export class Script {
 		throw new ScriptError(text);
 	}
 
+	/**
+	 * Creates evaluation scope with global, persistent and visible local variables.
+	 * @returns Evaluation scope.
+	 * @internal
+	 */
+	protected context() {
+		const locals = this.locals();
+		const vars = Object.assign(
+			{},
+			this.scope.dump(),
+			{ [SCRIPT_PERSISTENT]: this.persistent },
+			...locals.reverse(),
+		);
+		return new Scope<ScriptValue>(vars, this.scope.mode);
+	}
+
 	/**
 	 * Evaluates `node` as an expression and returns its value.
 	 * All instances of `ScriptExp` and `ScriptFmt` are going to be resolved.
@@ -359,9 +1217,9 @@ export class Script {
 		} else if (isArray(node)) {
 			return node.map((item) => this.eval(item));
 		} else if (node instanceof ScriptExp) {
-			return this.scope.renderExpression(node.exp);
+			return this.context().renderExpression(node.exp);
 		} else if (node instanceof ScriptFmt) {
-			return this.scope.renderTemplate(node.fmt);
+			return this.context().renderTemplate(node.fmt);
 		} else {
 			return node;
 		}
@@ -369,80 +1227,18 @@ export class Script {
 
 	/**
 	 * Evaluates `node` as a command and executes it.
+	 * @remarks Use `define` method to implement own commands.
 	 * @param node - Command to execute.
-	 * @remarks Override this method to implement own commands.
 	 * @internal
 	 */
 	protected exec(node: ScriptNode) {
 		const { type, args } = this.unpack(node);
-		switch (type) {
-			case 'if': {
-				const argSchema = zod.object({
-					cond: zod.any(),
-					then: zod.array(zod.any()).optional(),
-					else: zod.array(zod.any()).optional(),
-				});
-				const { cond, ...branch } = this.validate(argSchema, args);
-				const isTrue = !!this.eval(cond);
-				if (isTrue && branch.then) {
-					this.stack.push(branch.then);
-				}
-				if (!isTrue && branch.else) {
-					this.stack.push(branch.else);
-				}
-				break;
-			}
-			case 'label': {
-				const argSchema = zod.string();
-				this.validate(argSchema, this.eval(args));
-				break;
-			}
-			case 'jump': {
-				const argSchema = zod.string();
-				const label = this.validate(argSchema, this.eval(args));
-				this.jump(label);
-				break;
-			}
-			case 'eval': {
-				const argSchema = zod.string();
-				const code = this.validate(argSchema, this.eval(args));
-				new Function(code).call(this.scope.dump());
-				break;
-			}
-			case 'print': {
-				const argSchema = zod.string();
-				const text = this.validate(argSchema, this.eval(args));
-				console.log(text);
-				break;
-			}
-			case 'throw': {
-				const argSchema = zod.string();
-				const text = this.validate(argSchema, this.eval(args));
-				throw new ScriptError(text);
-				break;
-			}
-			case 'set': {
-				const argSchema = zod.object({
-					name: zod.string(),
-					value: zod.any(),
-				});
-				const { name, value } = this.validate(argSchema, this.eval(args));
-				this.setVar(name, value);
-				break;
-			}
-			case 'emit': {
-				const argSchema = zod.object({
-					type: zod.string(),
-					data: zod.any(),
-				});
-				const data = this.validate(argSchema, this.eval(args));
-				this.emit(data.type, data.data);
-				break;
-			}
-			default: {
-				throw new ScriptError(`Unknown command: ${type}`);
-				break;
-			}
+		const command = this.commands.get(type);
+		if (!command) {
+			throw new ScriptError(`Unknown command: ${type}`);
 		}
+		const value = command.mode === 'raw' ? args : this.eval(args);
+		const data = this.validate(command.schema, value);
+		command.run(data, this, node);
 	}
 }
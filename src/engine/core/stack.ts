@@ -8,9 +8,10 @@ import { diffArray } from '../utils/diff';
  * @typeParam T - Frame command type.
  * @typeParam M - Frame metadata.
  */
-export type StackFrame<T = unknown> = {
+export type StackFrame<T = unknown, M = unknown> = {
 	programCounter: number;
 	code: Array<T>;
+	meta?: M;
 };
 
 /**
@@ -18,8 +19,8 @@ export type StackFrame<T = unknown> = {
  * @typeParam T - Frame command type.
  * @typeParam M - Frame metadata.
  */
-export type StackSlice<T = unknown> = {
-	frame: StackFrame<T>;
+export type StackSlice<T = unknown, M = unknown> = {
+	frame: StackFrame<T, M>;
 	index: number;
 	value: T;
 };
@@ -37,7 +38,7 @@ export class StackError extends Error {
  * @typeParam M - Frame metadata.
  */
 export class Stack<T = unknown, M = never> {
-	private stack: Array<StackFrame<T>> = [];
+	private stack: Array<StackFrame<T, M>> = [];
 
 	/**
 	 * Patches given frame with a new code, updating the program counter accordingly.
@@ -45,7 +46,7 @@ export class Stack<T = unknown, M = never> {
 	 * @param code - Updated code.
 	 * @returns Given stack frame.
 	 */
-	public static patch<T>(frame: StackFrame<T>, code: StackFrame<T>['code']) {
+	public static patch<T, M>(frame: StackFrame<T, M>, code: StackFrame<T, M>['code']) {
 		let index = 0;
 		for (const change of diffArray(frame.code, code)) {
 			if (index >= frame.programCounter) {
@@ -84,7 +85,7 @@ export class Stack<T = unknown, M = never> {
 	 * @returns Stack frame data.
 	 */
 	public dump() {
-		return this.stack.reverse();
+		return [...this.stack].reverse();
 	}
 
 	/**
@@ -97,44 +98,68 @@ export class Stack<T = unknown, M = never> {
 	/**
 	 * Pushes new frame to the top of the stack.
 	 * @param code - Frame code.
+	 * @param meta - Frame metadata (optional).
 	 * @returns Created frame.
 	 */
-	public push(code: StackFrame<T>['code']): StackFrame<T> {
-		const frame = { programCounter: 0, code };
+	public push(code: StackFrame<T, M>['code'], meta?: M): StackFrame<T, M> {
+		const frame = { programCounter: 0, code, meta };
 		this.stack.unshift(frame);
 		return frame;
 	}
 
+	/**
+	 * Pops a frame from the top of the stack.
+	 * @returns Removed frame or null.
+	 */
+	public pop(): StackFrame<T, M> | null {
+		return this.stack.shift() ?? null;
+	}
+
+	/**
+	 * Pops frames from the top of the stack until the given `frame` is reached.
+	 * @param frame - Frame to unwind to (it is kept on the stack).
+	 */
+	public unwind(frame: StackFrame<T, M>) {
+		const index = this.stack.indexOf(frame);
+		if (index < 0) {
+			throw new StackError('Unable to unwind to a frame outside of the stack');
+		}
+		this.stack.splice(0, index);
+	}
+
 	/**
 	 * Peeks a slice from the top of the stack.
+	 * @remarks Exhausted frames are skipped, but kept until the next pull.
 	 * @returns Stack slice from the top of the stack.
 	 */
-	public peek(): StackSlice<T> | null {
-		const frame = this.stack[0];
-		const value = frame?.code[frame.programCounter];
-		if (!frame || !value) {
+	public peek(): StackSlice<T, M> | null {
+		const frame = this.stack.find((frame) => {
+			return frame.programCounter < frame.code.length;
+		});
+		if (!frame) {
 			return null;
 		}
 		return {
 			frame,
 			index: frame.programCounter,
-			value,
+			value: frame.code[frame.programCounter]!,
 		};
 	}
 
 	/**
 	 * Pulls a slice from the top of the stack.
+	 * Exhausted frames on top of the pulled one are removed.
 	 * @returns Stack slice from the top of the stack.
 	 */
-	public pull(): StackSlice<T> | null {
+	public pull(): StackSlice<T, M> | null {
 		const slice = this.peek();
 		if (!slice) {
 			return null;
 		}
-		slice.frame.programCounter++;
-		if (slice.frame.programCounter === slice.frame.code.length) {
+		while (this.stack[0] !== slice.frame) {
 			this.stack.shift();
 		}
+		slice.frame.programCounter++;
 		return slice;
 	}
 }
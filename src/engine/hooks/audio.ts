@@ -3,8 +3,10 @@
  */
 import { Howl } from 'howler';
 import { ref, watch, nextTick } from 'vue';
+import { isEqual } from 'lodash';
 import { useWindowFocus } from '@vueuse/core';
-import { useAssets } from '../stores';
+import { SceneChannel, SceneChannelSchema } from '../core';
+import { useAssets, useSettings } from '../stores';
 
 /**
  * Fade duration in miliseconds.
@@ -12,89 +14,329 @@ import { useAssets } from '../stores';
  */
 const AUDIO_FADE = 350;
 
+/**
+ * Music volume while voice lines play (relative to its own volume).
+ * @internal
+ */
+const AUDIO_DUCKING = 0.4;
+
 /**
  * Audio parameters.
  */
 export interface AudioOptions {
 	path: string;
+	channel?: SceneChannel;
 	volume?: number;
 	rate?: number;
 	loop?: boolean;
+	fade?: number;
+	crossfade?: boolean;
+	character?: string;
 }
 
+/**
+ * Sound playing on a channel.
+ * @internal
+ */
+interface AudioSound {
+	audio: Howl;
+	opts: AudioOptions;
+}
+
+/**
+ * Converts fade option (seconds, or a flag for the default duration) to miliseconds.
+ * @param fade - Fade option.
+ * @internal
+ */
+const fadeDuration = (fade: boolean | number) => {
+	return typeof fade === 'number' ? fade * 1000 : fade ? AUDIO_FADE : 0;
+};
+
 /**
  * Audio player.
+ * Sounds play on named channels, each with its own loop, level and volume setting.
+ * Music is ducked while voice lines play, which also have a volume setting per character.
  */
 export const useAudio = () => {
 	const focus = useWindowFocus();
 	const asset = useAssets();
+	const settings = useSettings();
+
+	/**
+	 * Sounds playing on each channel.
+	 */
+	const channels = new Map<SceneChannel, Array<AudioSound>>();
 
 	/**
-	 * Loop storage.
+	 * Channel levels set by the scene (full by default).
 	 */
-	const loop = ref<Howl>();
+	const levels: Partial<Record<SceneChannel, number>> = {};
 
 	/**
-	 * Loop original volume.
+	 * Music ducking status.
 	 */
-	const loopVolume = ref(1);
+	let ducked = false;
+
+	/**
+	 * Page voice clip counter, so that clips loaded after the page was left are not played.
+	 */
+	let line = 0;
+
+	/**
+	 * Page voice clip loading status.
+	 */
+	let loading = false;
+
+	/**
+	 * Reactive: Voice lines playing status (including the page voice clip being loaded).
+	 */
+	const speaking = ref(false);
+
+	/**
+	 * Resolves channel of the given audio (looped audio is music by default).
+	 * @param opts - Audio parameters.
+	 * @internal
+	 */
+	const channelOf = (opts: AudioOptions) => {
+		return opts.channel ?? (opts.loop ? 'music' : 'sfx');
+	};
+
+	/**
+	 * Sound volume adjusted to its channel level, volume settings and ducking.
+	 * @param sound - Sound.
+	 * @internal
+	 */
+	const volumeOf = (sound: AudioSound) => {
+		const { volume = 1, character } = sound.opts;
+		const channel = channelOf(sound.opts);
+		const duck = ducked && channel === 'music' ? AUDIO_DUCKING : 1;
+		const voice = character ? settings.values.characterVolume[character] ?? 1 : 1;
+		return volume * voice * (levels[channel] ?? 1) * settings.volume[channel] * duck;
+	};
+
+	/**
+	 * Fades sounds of the given channel (or all channels) to their current volume.
+	 * @param duration - Fade duration in miliseconds.
+	 * @param channel - Channel (optional).
+	 * @internal
+	 */
+	const refresh = (duration: number, channel?: SceneChannel) => {
+		for (const sound of sounds(channel)) {
+			if (sound.audio.playing()) {
+				sound.audio.fade(sound.audio.volume(), volumeOf(sound), duration);
+			} else {
+				sound.audio.volume(volumeOf(sound));
+			}
+		}
+	};
+
+	/**
+	 * Ducks music while voice lines play, and restores it afterwards.
+	 * @internal
+	 */
+	const duck = () => {
+		const voiced = sounds('voice').length > 0;
+		speaking.value = voiced || loading;
+		if (voiced !== ducked) {
+			ducked = voiced;
+			refresh(AUDIO_FADE, 'music');
+		}
+	};
+
+	/**
+	 * Lists sounds of the given channel (or all of them).
+	 * @param channel - Channel (optional).
+	 * @internal
+	 */
+	const sounds = (channel?: SceneChannel) => {
+		return channel ? channels.get(channel) ?? [] : [...channels.values()].flat();
+	};
+
+	/**
+	 * Removes sounds from their channel and unloads them.
+	 * @param removed - Sounds to remove.
+	 * @param duration - Fade out duration in miliseconds.
+	 * @internal
+	 */
+	const remove = (removed: Array<AudioSound>, duration: number) => {
+		for (const sound of removed) {
+			const channel = channelOf(sound.opts);
+			channels.set(
+				channel,
+				sounds(channel).filter((item) => item !== sound),
+			);
+			if (duration > 0 && sound.audio.playing()) {
+				sound.audio.fade(sound.audio.volume(), 0, duration);
+				sound.audio.once('fade', () => sound.audio.unload());
+			} else {
+				sound.audio.unload();
+			}
+		}
+		duck();
+	};
 
 	/**
 	 * Plays audio with a given parameters.
+	 * Looped audio replaces the loop playing on the same channel: it fades out for the `fade`
+	 * duration (or the default one) first, or along with the new audio fading in on `crossfade`.
 	 * @param opts - Audio parameters.
-	 * @returns Audio object.
 	 */
 	const play = async (opts: AudioOptions) => {
-		const sound = await asset.readAsBase64(await asset.load(opts.path));
-		const audio = new Howl({
-			src: [sound],
-			volume: opts.volume,
-			rate: opts.rate,
-			loop: opts.loop,
-		});
-		if (opts.loop) {
-			stop();
-			loopVolume.value = audio.volume();
-			loop.value = audio;
+		add(opts, await load(opts.path));
+	};
+
+	/**
+	 * Loads audio asset.
+	 * @param path - Asset path.
+	 * @internal
+	 */
+	const load = async (path: string) => {
+		return asset.readAsBase64(await asset.load(path));
+	};
+
+	/**
+	 * Adds loaded audio to its channel and starts it (see `play`).
+	 * @param opts - Audio parameters.
+	 * @param src - Audio source.
+	 * @internal
+	 */
+	const add = (opts: AudioOptions, src: string) => {
+		const channel = channelOf(opts);
+		const fade = fadeDuration(opts.fade ?? 0);
+		const sound: AudioSound = {
+			opts,
+			audio: new Howl({
+				src: [src],
+				rate: opts.rate,
+				loop: opts.loop,
+			}),
+		};
+		const replaced = opts.loop ? sounds(channel).filter((item) => item.opts.loop) : [];
+		const delay = replaced.length && fade && !opts.crossfade ? fade : 0;
+		remove(replaced, opts.fade === undefined ? AUDIO_FADE : fade);
+		if (!opts.loop) {
+			sound.audio.once('end', () => remove([sound], 0));
+		}
+		sound.audio.once('loaderror', () => remove([sound], 0));
+		channels.set(channel, [...sounds(channel), sound]);
+		duck();
+		sound.audio.volume(fade ? 0 : volumeOf(sound));
+		const start = () => {
+			if (sounds(channel).includes(sound)) {
+				sound.audio.play();
+				sound.audio.fade(0, volumeOf(sound), fade);
+			}
+		};
+		if (delay) {
+			setTimeout(start, delay);
+		} else {
+			nextTick(start);
+		}
+	};
+
+	/**
+	 * Plays the voice clip of a page, stopping the voice lines of the previous one.
+	 * @param path - Voice clip path (or null to only stop voice lines).
+	 * @param character - Speaking character name (optional).
+	 */
+	const speak = async (path: string | null, character?: string) => {
+		const id = ++line;
+		loading = !!path;
+		remove(sounds('voice'), AUDIO_FADE);
+		if (!path) {
+			return;
 		}
-		nextTick(() => {
-			audio.play();
-		});
+		try {
+			const src = await load(path);
+			if (id === line) {
+				add({ path, channel: 'voice', character }, src);
+			}
+		} finally {
+			if (id === line) {
+				loading = false;
+				duck();
+			}
+		}
+	};
+
+	/**
+	 * Ramps channel level to the given `volume`.
+	 * @param channel - Channel.
+	 * @param volume - Channel level (0 to 1).
+	 * @param seconds - Ramp duration (optional, immediate by default).
+	 */
+	const ramp = (channel: SceneChannel, volume: number, seconds: number = 0) => {
+		levels[channel] = volume;
+		refresh(seconds * 1000, channel);
 	};
 
 	/**
-	 * Pauses looped audio.
+	 * Pauses audio.
 	 * @param fade - Use fade effect (optional, true by default).
 	 */
 	const pause = (fade: boolean = true) => {
-		if (loop.value) {
-			loop.value.fade(loopVolume.value, 0, fade ? AUDIO_FADE : 0);
-			loop.value.once('fade', () => loop.value?.pause());
+		for (const { audio } of sounds()) {
+			if (audio.playing()) {
+				audio.fade(audio.volume(), 0, fade ? AUDIO_FADE : 0);
+				audio.once('fade', () => audio.pause());
+			}
 		}
 	};
 
 	/**
-	 * Resumes looped audio.
+	 * Resumes paused audio.
 	 * @param fade - Use fade effect (optional, true by default).
 	 */
 	const resume = (fade: boolean = true) => {
-		if (loop.value && !loop.value.playing()) {
-			loop.value.play();
-			loop.value.fade(0, loopVolume.value, fade ? AUDIO_FADE : 0);
+		for (const sound of sounds()) {
+			if (!sound.audio.playing()) {
+				sound.audio.play();
+				sound.audio.fade(0, volumeOf(sound), fade ? AUDIO_FADE : 0);
+			}
 		}
 	};
 
 	/**
-	 * Stops looped audio.
-	 * @param fade - Use fade effect (optional, true by default).
+	 * Stops audio of the given channel (or all channels).
+	 * @param fade - Fade duration in seconds, or whether to use the default one (optional).
+	 * @param channel - Channel to stop (optional).
+	 */
+	const stop = (fade: boolean | number = true, channel?: SceneChannel) => {
+		if (!channel || channel === 'voice') {
+			line++;
+			loading = false;
+		}
+		remove(sounds(channel), fadeDuration(fade));
+	};
+
+	/**
+	 * Plays the given looped audio of each channel, unless it is already playing.
+	 * Channels without looped audio are stopped, channel levels are applied at once.
+	 * @param loops - Looped audio of each channel.
+	 * @param volume - Channel levels (optional).
 	 */
-	const stop = (fade: boolean = true) => {
-		pause(fade);
-		loop.value = undefined;
+	const sync = (
+		loops: Partial<Record<SceneChannel, AudioOptions>>,
+		volume: Partial<Record<SceneChannel, number>> = {},
+	) => {
+		for (const channel of SceneChannelSchema.options) {
+			if (levels[channel] !== volume[channel]) {
+				ramp(channel, volume[channel] ?? 1);
+			}
+			const current = sounds(channel).find((sound) => sound.opts.loop);
+			const next = loops[channel];
+			if (isEqual(current?.opts, next)) {
+				continue;
+			} else if (next) {
+				play(next);
+			} else {
+				stop(true, channel);
+			}
+		}
 	};
 
 	/**
-	 * Pause loop audio on window blur and resume afterwards.
+	 * Pause audio on window blur and resume afterwards.
 	 */
 	watch(focus, () => {
 		if (!focus.value) {
@@ -104,10 +346,19 @@ export const useAudio = () => {
 		}
 	});
 
+	/**
+	 * Apply channel and character volume setting changes to the playing audio.
+	 */
+	watch([() => settings.volume, () => settings.values.characterVolume], () => refresh(0));
+
 	return {
 		play,
 		pause,
 		resume,
 		stop,
+		speak,
+		ramp,
+		sync,
+		speaking,
 	};
 };
@@ -8,7 +8,20 @@ import {
 	faExpand,
 	faWarning,
 	faSpinner,
+	faClockRotateLeft,
+	faPlay,
+	faForward,
+	faVolumeHigh,
 } from '@fortawesome/free-solid-svg-icons';
 
-library.add(faPause, faExpand, faWarning, faSpinner);
+library.add(
+	faPause,
+	faExpand,
+	faWarning,
+	faSpinner,
+	faClockRotateLeft,
+	faPlay,
+	faForward,
+	faVolumeHigh,
+);
 export default FontAwesomeIcon;
@@ -3,18 +3,36 @@
  */
 import { createApp } from 'vue';
 import { createPinia } from 'pinia';
+import { Scene, ScriptCommand } from './core';
+import { useScene } from './stores';
 import FontAwesomeIcon from './icons';
 import App from './app.vue';
 
 export class VN {
+	private commands = new Map<string, ScriptCommand<unknown, Scene>>();
+
 	constructor(public readonly src: string) {
 		return;
 	}
 
+	/**
+	 * Defines a custom scene command.
+	 * @param name - Command name.
+	 * @param command - Command definition.
+	 * @returns VN instance.
+	 */
+	public define<T>(name: string, command: ScriptCommand<T, Scene>) {
+		this.commands.set(name, command as ScriptCommand<unknown, Scene>);
+		return this;
+	}
+
 	public render(domId: string) {
 		const app = createApp(App, { src: this.src });
+		const pinia = createPinia();
 		app.component('font-awesome-icon', FontAwesomeIcon);
-		app.use(createPinia());
+		app.use(pinia);
+		const scene = useScene(pinia);
+		this.commands.forEach((command, name) => scene.define(name, command));
 		app.mount(`#${domId}`);
 	}
 }
@@ -2,3 +2,5 @@ export * from './asset';
 export * from './parser';
 export * from './scene';
 export * from './saves';
+export * from './persistent';
+export * from './settings';
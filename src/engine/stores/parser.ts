@@ -4,7 +4,13 @@
 import zod from 'zod';
 import { ref, shallowRef, computed } from 'vue';
 import { defineStore, acceptHMRUpdate } from 'pinia';
-import { Parser, ParserContext } from '../core';
+import {
+	Parser,
+	ParserContext,
+	Script,
+	ScriptSource,
+	ScriptDeclarationSchema,
+} from '../core';
 import { useAssets } from './asset';
 
 /**
@@ -13,9 +19,35 @@ import { useAssets } from './asset';
 // prettier-ignore
 export const ConfigSchema = zod.object({
 	meta: zod.object({
+		id: zod.string(),
 		title: zod.string(),
 		icon: zod.string(),
 	}),
+	engine: zod.object({
+		expressions: zod.enum(['safe', 'legacy']),
+	}),
+	include: zod.array(zod.string()),
+	saves: zod.object({
+		slots: zod.number().int().positive(),
+		pages: zod.number().int().positive(),
+		autosave: zod.object({
+			slots: zod.number().int().positive(),
+			pages: zod.number().int().nonnegative(),
+			menu: zod.boolean(),
+			hidden: zod.boolean(),
+		}),
+	}),
+	modes: zod.object({
+		skip: zod.object({
+			delay: zod.number().nonnegative(),
+			unread: zod.boolean(),
+		}),
+		auto: zod.object({
+			delay: zod.number().nonnegative(),
+			char: zod.number().nonnegative(),
+		}),
+	}),
+	characters: zod.array(zod.string()),
 	title: zod.object({
 		buttons: zod.array(
 			zod.object({
@@ -45,16 +77,91 @@ export const ConfigSchema = zod.object({
  */
 export const ParserSchema = zod.object({
 	config: ConfigSchema.optional(),
+	declare: zod.record(zod.string(), ScriptDeclarationSchema).optional(),
+	script: zod.array(zod.unknown()),
+});
+
+/**
+ * Included file schema.
+ * Only the script of included file is used, its labels are namespaced by the file name.
+ */
+export const IncludeSchema = zod.object({
+	config: ConfigSchema.pick({ include: true }).optional(),
 	script: zod.array(zod.unknown()),
 });
 
+/**
+ * Converts included file path into its label namespace.
+ * @param file - File path (e.g., `chapters/chapter2.yml`).
+ * @returns Namespace (e.g., `chapters/chapter2`).
+ */
+export const namespace = (file: string) => {
+	return file.replace(/^\/+/, '').replace(/\.ya?ml$/, '');
+};
+
+/**
+ * Creates custom parser tags.
+ * Unknown `!inc` paths are reported as parser errors instead of being thrown.
+ * @param resolve - Asset path resolver.
+ * @returns Custom tags.
+ */
+export const createTags = (resolve: (src: string) => string) => {
+	return [
+		{
+			tag: '!inc',
+			resolve: (src: string, onError: (message: string) => void) => {
+				try {
+					return resolve(src);
+				} catch (err) {
+					onError((err as Error).message);
+					return src;
+				}
+			},
+		},
+	];
+};
+
+/**
+ * Appends files included by the `main` context, depth-first.
+ * Every file is included only once, its labels are namespaced by the file name.
+ * Invalid files are reported when parsing the result.
+ * @param main - Main context.
+ * @param load - Included file loader.
+ * @returns Context with inclusions.
+ */
+export const bundle = async (
+	main: ParserContext,
+	load: (file: string) => Promise<ParserContext>,
+) => {
+	const seen = new Set<string>();
+	const include = async (context: ParserContext) => {
+		const included: Array<[string, ParserContext]> = [];
+		const validation = IncludeSchema.pick({ config: true }).safeParse(context.toJS());
+		for (const file of (validation.success && validation.data.config?.include) || []) {
+			if (!seen.has(file)) {
+				seen.add(file);
+				const context = await load(file);
+				included.push([file, context], ...(await include(context)));
+			}
+		}
+		return included;
+	};
+	let bundle = main;
+	for (const [file, context] of await include(main)) {
+		bundle = bundle.include(context, 'script', (script) => {
+			return Script.namespace(script as ScriptSource, namespace(file));
+		});
+	}
+	return bundle;
+};
+
 /**
  * Parser store.
  * Contains YAML fetching and parsing logic.
  */
 export const useParser = defineStore('parser', () => {
 	const asset = useAssets();
-	const customTags = [{ tag: '!inc', resolve: asset.resolve }];
+	const customTags = createTags(asset.resolve);
 
 	/**
 	 * Parser.
@@ -71,6 +178,12 @@ export const useParser = defineStore('parser', () => {
 	 */
 	const source = ref<string>();
 
+	/**
+	 * Parsed files, keyed by their source.
+	 * Unchanged files are not parsed again on reload.
+	 */
+	const files = shallowRef(new Map<string, { text: string; context: ParserContext }>());
+
 	/**
 	 * Parser context data.
 	 */
@@ -81,21 +194,43 @@ export const useParser = defineStore('parser', () => {
 	/**
 	 * Parses given `data` and stores the result inside the parser context.
 	 * @param data - Data to parse.
+	 * @param file - Data file name (optional).
 	 */
-	const parse = (data: string) => {
-		context.value = parser.value.parse(data);
+	const parse = (data: string, file?: string) => {
+		context.value = parser.value.parse(data, file);
 		context.value.parse(ParserSchema);
 	};
 
 	/**
-	 * Fetches the given `src`, parses it, and stores the result within the store context.
+	 * Loads and parses the given `src`, reusing the cached context if its text is unchanged.
+	 * @param src - Path to load.
+	 * @param file - File name to use for tracing.
+	 * @returns Parsed context.
+	 */
+	const load = async (src: string, file: string) => {
+		const text = await asset.readAsText(await asset.load(src));
+		const cached = files.value.get(src);
+		if (cached && cached.text === text) {
+			return cached.context;
+		}
+		const context = parser.value.parse(text, file);
+		files.value.set(src, { text, context });
+		return context;
+	};
+
+	/**
+	 * Fetches the given `src` with its includes, parses it, and stores the result within the store context.
+	 * Included scripts are appended to the main one in order of inclusion.
 	 * @param src - Path to load and parse.
 	 */
 	const fetch = async (src: string) => {
-		const blob = await asset.load(src);
-		const data = await asset.readAsText(blob);
+		const file = src.split(/[?#]/)[0]!.split('/').pop();
+		const main = await bundle(await load(src, file || src), (file) => {
+			return load(asset.resolve(file), file);
+		});
 		source.value = src;
-		parse(data);
+		main.parse(ParserSchema);
+		context.value = main;
 	};
 
 	/**
@@ -113,6 +248,7 @@ export const useParser = defineStore('parser', () => {
 	 */
 	const $reset = () => {
 		context.value = undefined;
+		files.value.clear();
 	};
 
 	return {
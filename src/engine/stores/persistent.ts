@@ -0,0 +1,148 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import { reactive, ref, watch } from 'vue';
+import { defineStore, acceptHMRUpdate } from 'pinia';
+import { cloneDeep } from 'lodash';
+import { ScriptPath, ScriptValue } from '../core';
+import { clear } from '../utils/object';
+import { openStorage } from '../utils/storage';
+
+/**
+ * Persistent variable storage name (IndexedDB database or local storage key prefix).
+ * Kept apart from the saves, so deleting saves does not lock unlocked content again.
+ * @internal
+ */
+export const PERSISTENT_STORAGE = 'sealed-persistent';
+
+/**
+ * Persistent variable storage key.
+ * @internal
+ */
+export const PERSISTENT_STORAGE_KEY = 'vars';
+
+/**
+ * Seen pages storage key.
+ * @internal
+ */
+export const SEEN_STORAGE_KEY = 'seen';
+
+/**
+ * Persistent variable store.
+ * Variables of the `global` script namespace and pages seen, kept across playthroughs.
+ */
+export const usePersistent = defineStore('persistent', () => {
+	/**
+	 * Persistent variable storage (IndexedDB or local storage).
+	 * @internal
+	 */
+	const storage = openStorage(PERSISTENT_STORAGE);
+
+	/**
+	 * Persistent variables.
+	 * Shared with scenes, which write them directly.
+	 */
+	const vars = reactive<Record<string, ScriptValue>>({});
+
+	/**
+	 * Paths of the pages seen in any playthrough (joined with dots).
+	 * Paths are not tracked across script changes, so pages moved around are seen as new.
+	 * @internal
+	 */
+	const seen = reactive(new Set<string>());
+
+	/**
+	 * Persistent variables loading indicator.
+	 * @internal
+	 */
+	const loaded = ref(false);
+
+	/**
+	 * Loads persistent variables and seen pages from the storage.
+	 * Values set before the storage is loaded are kept.
+	 * @internal
+	 */
+	const init = async () => {
+		try {
+			const backend = await storage;
+			const stored =
+				await backend.get<Record<string, ScriptValue>>(PERSISTENT_STORAGE_KEY);
+			Object.assign(vars, { ...stored, ...vars });
+			const pages = await backend.get<Array<string>>(SEEN_STORAGE_KEY);
+			pages?.forEach((page) => seen.add(page));
+		} catch (err) {
+			console.error('Unable to load persistent variables:', err);
+		} finally {
+			loaded.value = true;
+		}
+	};
+
+	/**
+	 * Checks whether the page of the given `path` was seen.
+	 * @param path - Page path.
+	 */
+	const hasSeen = (path: ScriptPath) => {
+		return seen.has(path.join('.'));
+	};
+
+	/**
+	 * Marks the page of the given `path` as seen.
+	 * @param path - Page path.
+	 */
+	const see = (path: ScriptPath) => {
+		seen.add(path.join('.'));
+	};
+
+	/**
+	 * Resets all persistent variables.
+	 */
+	const reset = () => {
+		clear(vars);
+	};
+
+	/**
+	 * Forgets all seen pages.
+	 */
+	const resetSeen = () => {
+		seen.clear();
+	};
+
+	/**
+	 * Writes value to the storage once the stored values are loaded.
+	 * @param key - Storage key.
+	 * @param value - Value to write.
+	 * @internal
+	 */
+	const write = async (key: string, value: unknown) => {
+		if (!loaded.value) {
+			return;
+		}
+		try {
+			const backend = await storage;
+			await backend.set(key, value);
+		} catch (err) {
+			console.error(`Unable to save persistent "${key}":`, err);
+		}
+	};
+
+	watch(vars, () => write(PERSISTENT_STORAGE_KEY, cloneDeep(vars)), { deep: true });
+	watch(seen, () => write(SEEN_STORAGE_KEY, [...seen]), { deep: true });
+
+	init();
+
+	return {
+		vars,
+		seen,
+		hasSeen,
+		see,
+		reset,
+		resetSeen,
+	};
+});
+
+/**
+ * Persistent variable store HMR.
+ */
+if (import.meta.hot) {
+	import.meta.hot.accept(acceptHMRUpdate(usePersistent, import.meta.hot));
+}
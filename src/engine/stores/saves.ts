@@ -1,81 +1,639 @@
 /**
  * Sealed Sins, 2023-2024.
  */
-import { reactive, watchEffect } from 'vue';
+import zod from 'zod';
+import { ref, reactive, computed, toRaw } from 'vue';
 import { defineStore, acceptHMRUpdate } from 'pinia';
-import { loadCompressed, saveCompressed } from '../utils/storage';
+import { useEventListener } from '@vueuse/core';
+import { cloneDeep, kebabCase, maxBy, minBy, range } from 'lodash';
+import { SceneBackgroundSchema, SceneSpriteSchema, ScriptError } from '../core';
+import {
+	compress,
+	decompress,
+	loadCompressed,
+	openStorage,
+	StorageBackend,
+	StorageQuotaError,
+} from '../utils/storage';
+import { useParser } from './parser';
 import { useScene } from './scene';
 
+/**
+ * Save metadata.
+ */
+// prettier-ignore
+export type SaveMeta = (
+	zod.infer<typeof SaveMetaSchema>
+);
+
 /**
  * Save structure.
  */
-export interface Save {
-	date: number;
-	data: string;
-}
+// prettier-ignore
+export type Save = (
+	zod.infer<typeof SaveSchema>
+);
+
+/**
+ * Save file structure.
+ */
+// prettier-ignore
+export type SaveFile = (
+	zod.infer<typeof SaveFileSchema>
+);
+
+/**
+ * Save metadata schema.
+ * Background and sprites are kept to compose the slot thumbnail.
+ */
+export const SaveMetaSchema = zod.object({
+	name: zod.string(),
+	text: zod.string(),
+	chapter: zod.string().nullable(),
+	background: SceneBackgroundSchema,
+	sprites: zod.array(SceneSpriteSchema),
+});
+
+/**
+ * Save schema.
+ */
+export const SaveSchema = zod.object({
+	date: zod.number(),
+	data: zod.string(),
+	meta: SaveMetaSchema.optional(),
+	backlog: zod
+		.array(
+			zod.object({
+				name: zod.string(),
+				text: zod.string(),
+				voice: zod.string().optional(),
+				step: zod.number(),
+			}),
+		)
+		.optional(),
+});
+
+/**
+ * Save file schema.
+ * Exported saves are kept along with their slots.
+ */
+export const SaveFileSchema = zod.object({
+	slots: zod.array(
+		zod.object({
+			slot: zod.number().int().nonnegative(),
+			save: SaveSchema,
+		}),
+	),
+});
+
+/**
+ * Save file extension.
+ * @internal
+ */
+export const SAVE_FILE_EXTENSION = '.sav';
 
 /**
- * Save Local Storage Domain (Path).
+ * Save storage name (IndexedDB database or local storage key prefix).
+ * @internal
+ */
+export const SAVE_STORAGE = 'sealed-saves';
+
+/**
+ * Save storage domain (key prefix).
+ * Each slot is kept under its own `domain/index` key.
+ * Also the local storage key of the saves written before the storage was introduced.
  * @internal
  */
 export const SAVE_STORAGE_DOMAIN = 'saves';
 
+/**
+ * Autosave storage domain (key prefix).
+ * @internal
+ */
+export const AUTOSAVE_STORAGE_DOMAIN = 'autosaves';
+
+/**
+ * Quicksave storage domain (key prefix).
+ * @internal
+ */
+export const QUICKSAVE_STORAGE_DOMAIN = 'quicksave';
+
+/**
+ * Save storage domains.
+ * @internal
+ */
+type SaveDomain =
+	| typeof SAVE_STORAGE_DOMAIN
+	| typeof AUTOSAVE_STORAGE_DOMAIN
+	| typeof QUICKSAVE_STORAGE_DOMAIN;
+
+/**
+ * Default number of save slots per page.
+ * @internal
+ */
+export const SAVE_SLOTS = 6;
+
+/**
+ * Default number of save pages.
+ * @internal
+ */
+export const SAVE_PAGES = 5;
+
+/**
+ * Default autosave settings.
+ * Rotating slots are written every `pages` pages, on menus and when the page is hidden.
+ * @internal
+ */
+export const AUTOSAVE_DEFAULTS = {
+	slots: 3,
+	pages: 10,
+	menu: true,
+	hidden: true,
+};
+
+/**
+ * Loads compressed value from the local storage, ignoring broken values.
+ * @param key - Key to load.
+ * @param fallback - Value used if there is none.
+ * @internal
+ */
+const loadLegacy = <T>(key: string, fallback: T) => {
+	try {
+		return loadCompressed<T>(key) ?? fallback;
+	} catch (err) {
+		return fallback;
+	}
+};
+
+/**
+ * Moves saves kept as whole arrays in the local storage into separate storage slots.
+ * Legacy values are removed once all of their slots are written.
+ * @param storage - Save storage.
+ * @internal
+ */
+const migrateLegacy = async (storage: StorageBackend) => {
+	const legacy: Record<SaveDomain, Array<Save | null>> = {
+		[SAVE_STORAGE_DOMAIN]: loadLegacy(SAVE_STORAGE_DOMAIN, []),
+		[AUTOSAVE_STORAGE_DOMAIN]: loadLegacy(AUTOSAVE_STORAGE_DOMAIN, []),
+		[QUICKSAVE_STORAGE_DOMAIN]: [loadLegacy(QUICKSAVE_STORAGE_DOMAIN, null)],
+	};
+	for (const [domain, saves] of Object.entries(legacy)) {
+		if (localStorage.getItem(domain) === null) {
+			continue;
+		}
+		for (const [index, save] of saves.entries()) {
+			if (save) {
+				await storage.set(`${domain}/${index}`, save);
+			}
+		}
+		localStorage.removeItem(domain);
+	}
+};
+
+/**
+ * Describes storage error for the player.
+ * @param err - Storage error.
+ * @internal
+ */
+const describeError = (err: unknown) => {
+	if (err instanceof StorageQuotaError) {
+		return 'Unable to save the game: storage is full. Delete or export some saves to free up space.';
+	}
+	return `Unable to save the game: ${(err as Error)?.message ?? err}`;
+};
+
+/**
+ * Downloads text as a file.
+ * @param name - File name.
+ * @param text - File contents.
+ * @internal
+ */
+const download = (name: string, text: string) => {
+	const url = URL.createObjectURL(new Blob([text], { type: 'application/octet-stream' }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = name;
+	link.click();
+	setTimeout(() => URL.revokeObjectURL(url));
+};
+
 /**
  * Savestate management store.
  */
 export const useSaves = defineStore('saves', () => {
+	const parser = useParser();
 	const store = useScene();
 
 	/**
-	 * Initial Local Storage state.
+	 * Save storage (IndexedDB or local storage).
+	 * @internal
 	 */
-	let initialState: Array<Save>;
-	try {
-		initialState = loadCompressed(SAVE_STORAGE_DOMAIN) ?? [];
-	} catch (err) {
-		initialState = [];
-	}
+	const storage = openStorage(SAVE_STORAGE);
 
 	/**
 	 * Save slots.
 	 */
-	const slots = reactive<Array<Save>>(initialState);
+	const slots = reactive<Array<Save | null>>([]);
 
 	/**
-	 * Saves scene state to the given `slot`.
-	 * @params slot - Slot to save.
+	 * Rotating autosave slots.
 	 */
-	const save = (slot: number) => {
-		if (!store.scene) {
-			return;
+	const autosaves = reactive<Array<Save | null>>([]);
+
+	/**
+	 * Quicksave slot (as the only slot of its domain).
+	 * @internal
+	 */
+	const quicksaves = reactive<Array<Save | null>>([]);
+
+	/**
+	 * Slots of each storage domain.
+	 * @internal
+	 */
+	const domains: Record<SaveDomain, Array<Save | null>> = {
+		[SAVE_STORAGE_DOMAIN]: slots,
+		[AUTOSAVE_STORAGE_DOMAIN]: autosaves,
+		[QUICKSAVE_STORAGE_DOMAIN]: quicksaves,
+	};
+
+	/**
+	 * Last storage error message (e.g. exceeded quota).
+	 */
+	const error = ref<string | null>(null);
+
+	/**
+	 * Pages displayed since the last autosave.
+	 * @internal
+	 */
+	const pages = ref(0);
+
+	/**
+	 * Menu autosaved last, so repeated clicks on the same menu are not saved again.
+	 * @internal
+	 */
+	let menuSaved: unknown = null;
+
+	/**
+	 * Quicksave slot.
+	 */
+	const quicksave = computed(() => {
+		return quicksaves[0] ?? null;
+	});
+
+	/**
+	 * Save slot layout (slots per page and number of pages).
+	 */
+	const layout = computed(() => {
+		const config = parser.data?.config?.saves;
+		return {
+			slots: config?.slots ?? SAVE_SLOTS,
+			pages: config?.pages ?? SAVE_PAGES,
+		};
+	});
+
+	/**
+	 * Autosave settings.
+	 */
+	const autosave = computed(() => {
+		return { ...AUTOSAVE_DEFAULTS, ...parser.data?.config?.saves?.autosave };
+	});
+
+	/**
+	 * Number of save slots of the layout.
+	 * @internal
+	 */
+	const capacity = computed(() => {
+		return layout.value.slots * layout.value.pages;
+	});
+
+	/**
+	 * Most recent save of all kinds (manual, auto and quick).
+	 */
+	const latest = computed(() => {
+		const all = [...slots, ...autosaves, ...quicksaves];
+		return maxBy(all, (save) => save?.date ?? -Infinity) ?? null;
+	});
+
+	/**
+	 * Save presence indicator (saves of any kind).
+	 */
+	const hasSaves = computed(() => {
+		return !!latest.value;
+	});
+
+	/**
+	 * Creates a save of the active scene state.
+	 * @returns Save (or null if there is no active scene).
+	 * @internal
+	 */
+	const create = (): Save | null => {
+		if (!store.scene || !store.state) {
+			return null;
 		}
-		slots[slot] = {
+		const { name, text, background, sprites } = cloneDeep(store.state);
+		const chapter = store.scene.getChapter();
+		return {
 			date: Date.now(),
 			data: store.scene.save(),
+			meta: { name, text, chapter, background, sprites },
+			backlog: cloneDeep(store.backlog),
 		};
 	};
 
+	/**
+	 * Loads saves from the storage, migrating the legacy ones first.
+	 * Slots written before the storage is loaded are kept.
+	 * @internal
+	 */
+	const init = async () => {
+		try {
+			const backend = await storage;
+			await migrateLegacy(backend);
+			for (const key of await backend.list()) {
+				const [domain, index] = key.split('/');
+				const saves = domains[domain as SaveDomain];
+				const validation = SaveSchema.safeParse(await backend.get(key));
+				if (saves && validation.success) {
+					saves[Number(index)] ??= validation.data;
+				}
+			}
+		} catch (err) {
+			console.error('Unable to load saves:', err);
+		}
+	};
+
+	/**
+	 * Writes save to the given slot of the storage domain.
+	 * The slot is reverted if the storage fails (e.g. its quota is exceeded).
+	 * @param domain - Storage domain.
+	 * @param slot - Slot to write.
+	 * @param save - Save to write (or null to delete the slot).
+	 * @internal
+	 */
+	const write = async (domain: SaveDomain, slot: number, save: Save | null) => {
+		const saves = domains[domain];
+		const previous = saves[slot] ?? null;
+		saves[slot] = save;
+		try {
+			const backend = await storage;
+			const key = `${domain}/${slot}`;
+			await (save ? backend.set(key, save) : backend.delete(key));
+		} catch (err) {
+			saves[slot] = previous;
+			error.value = describeError(err);
+		}
+	};
+
+	/**
+	 * Saves scene state to the given `slot`.
+	 * @params slot - Slot to save.
+	 */
+	const save = (slot: number) => {
+		const state = create();
+		if (state) {
+			write(SAVE_STORAGE_DOMAIN, slot, state);
+		}
+	};
+
 	/**
 	 * Loads scene state from the given `slot`.
 	 * @params slot - Slot to load.
+	 * @returns Whether the save was loaded.
 	 */
 	const load = (slot: number) => {
 		const state = slots[slot];
-		if (!store.scene || !state) {
+		return state ? restore(state) : false;
+	};
+
+	/**
+	 * Loads scene state from the given save of any kind.
+	 * Incompatible or broken saves are reported as `error`, keeping the active scene state.
+	 * @params state - Save to load.
+	 * @returns Whether the save was loaded.
+	 */
+	const restore = (state: Save) => {
+		if (!store.scene) {
+			return false;
+		}
+		try {
+			store.load(state.data, state.backlog);
+		} catch (err) {
+			if (err instanceof ScriptError) {
+				error.value = err.message;
+				return false;
+			}
+			throw err;
+		}
+		pages.value = 0;
+		return true;
+	};
+
+	/**
+	 * Saves scene state to the next autosave slot (an empty or the oldest one).
+	 * Finished scenes are not saved.
+	 */
+	const saveAuto = () => {
+		const state = store.done ? null : create();
+		if (!state) {
+			return;
+		}
+		const slot = minBy(
+			range(autosave.value.slots),
+			(i) => autosaves[i]?.date ?? -Infinity,
+		);
+		write(AUTOSAVE_STORAGE_DOMAIN, slot!, state);
+		pages.value = 0;
+	};
+
+	/**
+	 * Saves scene state to the quicksave slot.
+	 */
+	const saveQuick = () => {
+		const state = create();
+		if (state) {
+			write(QUICKSAVE_STORAGE_DOMAIN, 0, state);
+		}
+	};
+
+	/**
+	 * Loads scene state from the quicksave slot.
+	 * @returns Whether the save was loaded.
+	 */
+	const loadQuick = () => {
+		return quicksave.value ? restore(quicksave.value) : false;
+	};
+
+	/**
+	 * Loads the most recent save.
+	 * @returns Whether the save was loaded.
+	 */
+	const resume = () => {
+		return latest.value ? restore(latest.value) : false;
+	};
+
+	/**
+	 * Deletes save from the given `slot`.
+	 * @params slot - Slot to delete.
+	 */
+	const remove = (slot: number) => {
+		if (slots[slot]) {
+			write(SAVE_STORAGE_DOMAIN, slot, null);
+		}
+	};
+
+	/**
+	 * Exports the given `slot` (or all slots) into a downloadable save file.
+	 * @params slot - Slot to export (optional).
+	 */
+	const exportFile = (slot?: number) => {
+		const file: SaveFile = {
+			slots: slots.flatMap((save, index) => {
+				return save && (slot === undefined || slot === index)
+					? [{ slot: index, save }]
+					: [];
+			}),
+		};
+		const title = kebabCase(parser.data?.config?.meta?.title) || 'game';
+		const suffix = slot === undefined ? 'saves' : `slot-${slot + 1}`;
+		download(`${title}-${suffix}${SAVE_FILE_EXTENSION}`, compress(file));
+	};
+
+	/**
+	 * Parses the given save file contents.
+	 * @params text - Save file contents (compressed or JSON).
+	 * @returns Save file.
+	 * @throws Error if the file is broken or invalid.
+	 */
+	const parseFile = (text: string) => {
+		let data: unknown;
+		try {
+			data = decompress(text);
+		} catch (err) {
+			throw new Error('Invalid save file: unable to read its contents');
+		}
+		const validation = SaveFileSchema.safeParse(data);
+		if (!validation.success) {
+			const [issue] = validation.error.issues;
+			throw new Error(
+				`Invalid save file: ${issue!.message} at "${issue!.path.join('.')}"`,
+			);
+		}
+		const invalid = findInvalidSlot(validation.data);
+		if (invalid !== undefined) {
+			throw new Error(describeInvalidSlot(invalid));
+		}
+		return validation.data;
+	};
+
+	/**
+	 * Finds the first slot of the given save file outside of the slot layout.
+	 * @params file - Save file.
+	 * @returns Slot (or undefined if all slots fit).
+	 * @internal
+	 */
+	const findInvalidSlot = (file: SaveFile) => {
+		return file.slots.find(({ slot }) => slot >= capacity.value)?.slot;
+	};
+
+	/**
+	 * Describes slot outside of the slot layout for the player.
+	 * @params slot - Slot.
+	 * @internal
+	 */
+	const describeInvalidSlot = (slot: number) => {
+		return `Invalid save file: slot ${slot + 1} exceeds the ${
+			capacity.value
+		} available slots`;
+	};
+
+	/**
+	 * Lists occupied slots the given save file would overwrite.
+	 * @params file - Save file.
+	 * @returns Slots.
+	 */
+	const conflicts = (file: SaveFile) => {
+		return file.slots.filter(({ slot }) => !!slots[slot]).map(({ slot }) => slot);
+	};
+
+	/**
+	 * Imports saves of the given save file into their slots.
+	 * Files with slots outside of the slot layout are rejected.
+	 * @params file - Save file.
+	 */
+	const importFile = (file: SaveFile) => {
+		const invalid = findInvalidSlot(file);
+		if (invalid !== undefined) {
+			error.value = describeInvalidSlot(invalid);
 			return;
 		}
-		store.scene.load(state.data);
-		store.refresh();
+		for (const { slot, save } of file.slots) {
+			write(SAVE_STORAGE_DOMAIN, slot, save);
+		}
 	};
 
-	watchEffect(() => {
-		saveCompressed(SAVE_STORAGE_DOMAIN, slots);
+	/**
+	 * Autosave triggers: displayed pages and menus.
+	 */
+	store.$onAction(({ name, after }) => {
+		if (name !== 'next' && name !== 'pick' && name !== 'jump') {
+			return;
+		}
+		after(() => {
+			const { menu, pages: limit } = autosave.value;
+			if (store.menu) {
+				if (menu && toRaw(store.menu) !== menuSaved) {
+					menuSaved = toRaw(store.menu);
+					saveAuto();
+				}
+				return;
+			}
+			if (store.state?.text) {
+				pages.value = pages.value + 1;
+			}
+			if (limit > 0 && pages.value >= limit) {
+				saveAuto();
+			}
+		});
 	});
 
+	/**
+	 * Autosave triggers: page is hidden or closed.
+	 * Writes are asynchronous, so the page being hidden is the more reliable one.
+	 */
+	useEventListener(document, 'visibilitychange', () => {
+		if (autosave.value.hidden && document.visibilityState === 'hidden') {
+			saveAuto();
+		}
+	});
+	useEventListener(window, 'beforeunload', () => {
+		if (autosave.value.hidden) {
+			saveAuto();
+		}
+	});
+
+	init();
+
 	return {
 		slots,
+		autosaves,
+		quicksave,
+		error,
+		layout,
+		autosave,
+		latest,
+		hasSaves,
 		save,
 		load,
+		restore,
+		remove,
+		exportFile,
+		parseFile,
+		conflicts,
+		importFile,
+		saveAuto,
+		saveQuick,
+		loadQuick,
+		resume,
 	};
 });
 
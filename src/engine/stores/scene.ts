@@ -1,22 +1,62 @@
 /**
  * Sealed Sins, 2023-2024.
  */
-import { computed, shallowRef, triggerRef } from 'vue';
+import { ref, computed, shallowRef, triggerRef } from 'vue';
 import { defineStore, acceptHMRUpdate } from 'pinia';
-import { Scene, ScriptSource, ScriptListener } from '../core';
+import { last } from 'lodash';
+import { Scene, ScriptSource, ScriptListener, ScriptCommand, Linter } from '../core';
 import { useParser } from './parser';
+import { usePersistent } from './persistent';
+
+/**
+ * Backlog entry.
+ * Keeps the scene step it was displayed at, so it can be rolled back to, and its voice clip.
+ */
+export interface BacklogEntry {
+	name: string;
+	text: string;
+	voice?: string;
+	step: number;
+}
+
+/**
+ * Maximum number of backlog entries.
+ * @internal
+ */
+export const BACKLOG_LIMIT = 100;
 
 /**
  * Scene store.
  */
 export const useScene = defineStore('scene', () => {
 	const parser = useParser();
+	const persistent = usePersistent();
 
 	/**
 	 * Active scene.
 	 */
 	const scene = shallowRef<Scene>();
 
+	/**
+	 * Custom scene commands.
+	 */
+	const commands = shallowRef(new Map<string, ScriptCommand<unknown, Scene>>());
+
+	/**
+	 * Displayed pages, oldest first.
+	 */
+	const backlog = ref<Array<BacklogEntry>>([]);
+
+	/**
+	 * Number of scene steps (yields) so far.
+	 */
+	const step = ref(0);
+
+	/**
+	 * Whether the displayed page was already seen before (in any playthrough).
+	 */
+	const read = ref(false);
+
 	/**
 	 * Active scene state.
 	 */
@@ -43,16 +83,71 @@ export const useScene = defineStore('scene', () => {
 	 */
 	const init = () => {
 		if (parser.data) {
-			scene.value = new Scene(parser.data.script as ScriptSource);
-			scene.value.next();
+			const { script, declare, config } = parser.data;
+			const expressions = config?.engine?.expressions;
+			const game = config?.meta?.id ?? config?.meta?.title;
+			scene.value = new Scene(script as ScriptSource, {
+				expressions,
+				declare,
+				game,
+				persistent: persistent.vars,
+			});
+			commands.value.forEach((command, name) => scene.value!.define(name, command));
+			if (import.meta.env.DEV) {
+				for (const { message, severity, pos } of lint()) {
+					const at = pos ? ` (${pos.file}:${pos.line}:${pos.col})` : '';
+					console.warn(`[lint] ${severity}${at}: ${message}`);
+				}
+			}
+			backlog.value = [];
+			step.value = 0;
+			record(scene.value.next());
 		}
 	};
 
+	/**
+	 * Loads scene state.
+	 * @param data - Scene save data.
+	 * @param entries - Backlog entries to restore.
+	 */
+	const load = (data: string, entries: Array<BacklogEntry> = []) => {
+		scene.value?.load(data);
+		backlog.value = [...entries];
+		step.value = last(entries)?.step ?? 0;
+		track();
+		refresh();
+	};
+
+	/**
+	 * Lints active scene source.
+	 * @returns Diagnostics with code positions.
+	 */
+	const lint = () => {
+		if (scene.value && parser.data) {
+			const issues = new Linter(scene.value).lint(parser.data.script as ScriptSource);
+			return Linter.diagnose(issues, parser.context);
+		} else {
+			return [];
+		}
+	};
+
+	/**
+	 * Defines a custom scene command.
+	 * Commands are applied to every scene created afterwards.
+	 * @param name - Command name.
+	 * @param command - Command definition.
+	 */
+	const define = <T>(name: string, command: ScriptCommand<T, Scene>) => {
+		commands.value.set(name, command as ScriptCommand<unknown, Scene>);
+	};
+
 	/**
 	 * Executes the next scene frame.
 	 */
 	const next = () => {
-		scene.value?.next();
+		if (!menu.value && !done.value) {
+			record(scene.value?.next() ?? false);
+		}
 		refresh();
 	};
 
@@ -60,8 +155,10 @@ export const useScene = defineStore('scene', () => {
 	 * Jumps to the given `label`.
 	 */
 	const jump = (label: string) => {
-		scene.value?.jump(label);
-		scene.value?.next();
+		if (scene.value) {
+			scene.value.jump(label);
+			record(scene.value.next());
+		}
 		refresh();
 	};
 
@@ -70,10 +167,77 @@ export const useScene = defineStore('scene', () => {
 	 * @param id - Menu item ID to pick.
 	 */
 	const pick = (id: string) => {
-		scene.value?.pick(id);
+		if (menu.value) {
+			record(scene.value?.pick(id) ?? false);
+		}
 		refresh();
 	};
 
+	/**
+	 * Rolls the scene back by the given number of steps.
+	 * Backlog entries displayed afterwards are dropped.
+	 * @param steps - Number of steps (optional, 1 by default).
+	 * @returns Whether the scene was rolled back.
+	 */
+	const back = (steps: number = 1) => {
+		const success = scene.value?.back(steps) ?? false;
+		if (success) {
+			step.value = step.value - steps;
+			backlog.value = backlog.value.filter((entry) => entry.step <= step.value);
+			track();
+		}
+		refresh();
+		return success;
+	};
+
+	/**
+	 * Checks whether the scene can be rolled back to the given backlog `entry`.
+	 * @param entry - Backlog entry.
+	 */
+	const canRewind = (entry: BacklogEntry) => {
+		return !!scene.value?.canBack(step.value - entry.step);
+	};
+
+	/**
+	 * Rolls the scene back to the given backlog `entry`.
+	 * @param entry - Backlog entry.
+	 * @returns Whether the scene was rolled back.
+	 */
+	const rewind = (entry: BacklogEntry) => {
+		return back(step.value - entry.step);
+	};
+
+	/**
+	 * Records a scene step, adding the displayed page to the backlog.
+	 * Steps are only counted on yields, so that they match the scene rollback snapshots.
+	 * @param yielded - Whether the scene yielded.
+	 * @internal
+	 */
+	const record = (yielded: boolean) => {
+		const state = scene.value?.getState();
+		if (yielded) {
+			step.value = step.value + 1;
+		}
+		if (yielded && state?.text) {
+			const { name, text, voice } = state;
+			const entry = { name, text, voice: voice ?? undefined, step: step.value };
+			backlog.value = [...backlog.value, entry].slice(-BACKLOG_LIMIT);
+		}
+		track();
+	};
+
+	/**
+	 * Marks the displayed page as seen, remembering whether it was read before.
+	 * @internal
+	 */
+	const track = () => {
+		const page = scene.value?.getPage();
+		read.value = !!page && persistent.hasSeen(page);
+		if (page) {
+			persistent.see(page);
+		}
+	};
+
 	/**
 	 * Emits scene event.
 	 * @param event - Event to dispatch.
@@ -116,17 +280,30 @@ export const useScene = defineStore('scene', () => {
 	 */
 	const $reset = () => {
 		scene.value = undefined;
+		backlog.value = [];
+		step.value = 0;
+		read.value = false;
 	};
 
 	return {
 		scene,
+		commands,
+		backlog,
+		step,
+		read,
 		state,
 		menu,
 		done,
 		init,
+		load,
+		lint,
+		define,
 		next,
 		jump,
 		pick,
+		back,
+		canRewind,
+		rewind,
 		emit,
 		subscribe,
 		refresh,
@@ -0,0 +1,230 @@
+/**
+ * Sealed Sins, 2023-2024.
+ */
+import zod from 'zod';
+import { reactive, ref, computed, watch } from 'vue';
+import { defineStore, acceptHMRUpdate } from 'pinia';
+import { usePreferredReducedMotion } from '@vueuse/core';
+import { SceneChannel } from '../core';
+import { clear } from '../utils/object';
+import { openStorage } from '../utils/storage';
+import { useParser } from './parser';
+
+/**
+ * Player settings.
+ */
+// prettier-ignore
+export type Settings = (
+	zod.infer<typeof SettingsSchema>
+);
+
+/**
+ * Player settings schema.
+ * Text speed is a typing delay per character (0 to show text at once), delays are in milliseconds.
+ * Character voice volumes are keyed by character names (as shown on their pages).
+ */
+export const SettingsSchema = zod.object({
+	textSpeed: zod.number().int().nonnegative(),
+	autoDelay: zod.number().nonnegative(),
+	masterVolume: zod.number().min(0).max(1),
+	musicVolume: zod.number().min(0).max(1),
+	ambienceVolume: zod.number().min(0).max(1),
+	sfxVolume: zod.number().min(0).max(1),
+	voiceVolume: zod.number().min(0).max(1),
+	characterVolume: zod.record(zod.string(), zod.number().min(0).max(1)),
+	skipUnread: zod.boolean(),
+	fullscreen: zod.boolean(),
+	reducedMotion: zod.boolean(),
+});
+
+/**
+ * Settings storage name (IndexedDB database or local storage key prefix).
+ * @internal
+ */
+export const SETTINGS_STORAGE = 'sealed-settings';
+
+/**
+ * Settings storage key.
+ * @internal
+ */
+export const SETTINGS_STORAGE_KEY = 'settings';
+
+/**
+ * Default skip mode settings.
+ * Pages are skipped every `delay` milliseconds, unread ones only if `unread` is set.
+ * @internal
+ */
+export const SKIP_DEFAULTS = {
+	delay: 50,
+	unread: false,
+};
+
+/**
+ * Default auto mode settings.
+ * Pages are advanced `delay` milliseconds (plus `char` per character) after typing.
+ * @internal
+ */
+export const AUTO_DEFAULTS = {
+	delay: 1000,
+	char: 30,
+};
+
+/**
+ * Default player settings.
+ * @internal
+ */
+export const SETTINGS_DEFAULTS: Settings = {
+	textSpeed: 15,
+	autoDelay: AUTO_DEFAULTS.delay,
+	masterVolume: 1,
+	musicVolume: 1,
+	ambienceVolume: 1,
+	sfxVolume: 1,
+	voiceVolume: 1,
+	characterVolume: {},
+	skipUnread: SKIP_DEFAULTS.unread,
+	fullscreen: false,
+	reducedMotion: false,
+};
+
+/**
+ * Player settings store.
+ * Only the settings changed by the player are stored, the rest follow the game config.
+ */
+export const useSettings = defineStore('settings', () => {
+	const parser = useParser();
+	const motion = usePreferredReducedMotion();
+
+	/**
+	 * Settings storage (IndexedDB or local storage).
+	 * @internal
+	 */
+	const storage = openStorage(SETTINGS_STORAGE);
+
+	/**
+	 * Settings changed by the player.
+	 * @internal
+	 */
+	const changes = reactive<Partial<Settings>>({});
+
+	/**
+	 * Settings loading indicator.
+	 * @internal
+	 */
+	const loaded = ref(false);
+
+	/**
+	 * Default settings of the game (and the system reduced motion preference).
+	 */
+	const defaults = computed((): Settings => {
+		const modes = parser.data?.config?.modes;
+		return {
+			...SETTINGS_DEFAULTS,
+			autoDelay: modes?.auto?.delay ?? SETTINGS_DEFAULTS.autoDelay,
+			skipUnread: modes?.skip?.unread ?? SETTINGS_DEFAULTS.skipUnread,
+			reducedMotion: motion.value === 'reduce',
+		};
+	});
+
+	/**
+	 * Effective settings.
+	 */
+	const values = computed((): Settings => {
+		return { ...defaults.value, ...changes };
+	});
+
+	/**
+	 * Skip and auto mode settings.
+	 */
+	const modes = computed(() => {
+		const config = parser.data?.config?.modes;
+		return {
+			skip: { ...SKIP_DEFAULTS, ...config?.skip, unread: values.value.skipUnread },
+			auto: { ...AUTO_DEFAULTS, ...config?.auto, delay: values.value.autoDelay },
+		};
+	});
+
+	/**
+	 * Effective volume of each audio channel.
+	 */
+	const volume = computed((): Record<SceneChannel, number> => {
+		const { masterVolume, musicVolume, ambienceVolume, sfxVolume, voiceVolume } =
+			values.value;
+		return {
+			music: masterVolume * musicVolume,
+			ambience: masterVolume * ambienceVolume,
+			sfx: masterVolume * sfxVolume,
+			voice: masterVolume * voiceVolume,
+		};
+	});
+
+	/**
+	 * Loads settings changed by the player, ignoring invalid ones.
+	 * Settings changed before the storage is loaded are kept.
+	 * @internal
+	 */
+	const init = async () => {
+		try {
+			const backend = await storage;
+			const stored = await backend.get(SETTINGS_STORAGE_KEY);
+			const validation = SettingsSchema.partial().safeParse(stored ?? {});
+			if (validation.success) {
+				Object.assign(changes, { ...validation.data, ...changes });
+			}
+		} catch (err) {
+			console.error('Unable to load settings:', err);
+		} finally {
+			loaded.value = true;
+		}
+	};
+
+	/**
+	 * Changes the given setting.
+	 * @param name - Setting name.
+	 * @param value - Setting value.
+	 */
+	const set = <K extends keyof Settings>(name: K, value: Settings[K]) => {
+		changes[name] = SettingsSchema.shape[name].parse(value) as Settings[K];
+	};
+
+	/**
+	 * Resets all settings to their defaults.
+	 */
+	const reset = () => {
+		clear(changes);
+	};
+
+	watch(
+		changes,
+		async () => {
+			if (!loaded.value) {
+				return;
+			}
+			try {
+				const backend = await storage;
+				await backend.set(SETTINGS_STORAGE_KEY, { ...changes });
+			} catch (err) {
+				console.error('Unable to save settings:', err);
+			}
+		},
+		{ deep: true },
+	);
+
+	init();
+
+	return {
+		defaults,
+		values,
+		modes,
+		volume,
+		set,
+		reset,
+	};
+});
+
+/**
+ * Player settings store HMR.
+ */
+if (import.meta.hot) {
+	import.meta.hot.accept(acceptHMRUpdate(useSettings, import.meta.hot));
+}
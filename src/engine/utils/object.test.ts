@@ -5,6 +5,13 @@ import { describe, it, expect } from 'vitest';
 import * as object from './object';
 
 describe('Object', () => {
+	it('implements `isRecord` method', () => {
+		expect(object.isRecord({ a: 100 })).toBe(true);
+		expect(object.isRecord([100])).toBe(false);
+		expect(object.isRecord(null)).toBe(false);
+		expect(object.isRecord(new Date())).toBe(false);
+	});
+
 	it('implements `clear` method', () => {
 		const obj = { a: 100, b: 150 };
 		object.clear(obj);
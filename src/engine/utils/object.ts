@@ -2,6 +2,17 @@
  * Sealed Sins, 2023-2024.
  */
 
+import { isPlainObject } from 'lodash';
+
+/**
+ * Checks whether `value` is a plain object record.
+ * @params value - Value to check.
+ * @returns Whether value is a record.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+	return isPlainObject(value);
+};
+
 /**
  * Removes all elements from the `obj`.
  * @params obj - Object to wipe.
@@ -1,12 +1,21 @@
 /**
  * Sealed Sins, 2023-2024.
  */
-import { describe, it, expect, afterEach } from 'vitest';
-import { loadCompressed, saveCompressed } from './storage';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+	compress,
+	decompress,
+	loadCompressed,
+	saveCompressed,
+	openStorage,
+	LocalStorageBackend,
+	StorageQuotaError,
+} from './storage';
 
 describe('Storage', () => {
 	afterEach(() => {
 		localStorage.clear();
+		vi.restoreAllMocks();
 	});
 
 	it('compresses data', () => {
@@ -20,4 +29,37 @@ describe('Storage', () => {
 		const data = loadCompressed('test');
 		expect(data).toBeNull();
 	});
+
+	it('decompresses both compressed and plain JSON data', () => {
+		const data = { slots: [{ date: 1 }] };
+		expect(decompress(compress(data))).toEqual(data);
+		expect(decompress(JSON.stringify(data, null, 2))).toEqual(data);
+		expect(() => decompress('')).toThrowError('Unable to decompress data');
+	});
+
+	it('implements local storage backend', async () => {
+		const storage = new LocalStorageBackend('test');
+		localStorage.setItem('other', 'value');
+		localStorage.setItem('test', 'value');
+		await storage.set('saves/0', { date: 1 });
+		await storage.set('saves/1', { date: 2 });
+		await storage.set('quicksave/0', { date: 3 });
+		expect(await storage.get('saves/1')).toEqual({ date: 2 });
+		expect(await storage.get('saves/2')).toBeNull();
+		expect(await storage.list('saves/')).toEqual(['saves/0', 'saves/1']);
+		await storage.delete('saves/0');
+		expect(await storage.list()).toEqual(['saves/1', 'quicksave/0']);
+	});
+
+	it('raises quota errors', async () => {
+		const storage = new LocalStorageBackend('test');
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+			throw new DOMException('Quota exceeded', 'QuotaExceededError');
+		});
+		await expect(storage.set('saves/0', {})).rejects.toBeInstanceOf(StorageQuotaError);
+	});
+
+	it('falls back to local storage without IndexedDB', async () => {
+		expect(await openStorage('test')).toBeInstanceOf(LocalStorageBackend);
+	});
 });
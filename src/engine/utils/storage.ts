@@ -3,6 +3,31 @@
  */
 import { compressToBase64, decompressFromBase64 } from 'lz-string';
 
+/**
+ * Compresses value into a base64 string.
+ * @param value - Value to compress.
+ * @returns Compressed value.
+ */
+export const compress = <T = unknown>(value: T) => {
+	return compressToBase64(JSON.stringify(value));
+};
+
+/**
+ * Decompresses value from a base64 string.
+ * Plain JSON is accepted as well.
+ * @param text - Text to decompress.
+ * @returns Decompressed value.
+ * @throws Error if the text is neither compressed nor JSON.
+ */
+export const decompress = <T = unknown>(text: string) => {
+	const trimmed = text.trim();
+	const json = /^[[{"]/.test(trimmed) ? trimmed : decompressFromBase64(trimmed);
+	if (!json) {
+		throw new Error('Unable to decompress data');
+	}
+	return JSON.parse(json) as T;
+};
+
 /**
  * Loads compressed value from the local storage.
  * @param key - Key to load.
@@ -13,9 +38,7 @@ export const loadCompressed = <T = unknown>(key: string) => {
 	if (!base64) {
 		return null;
 	}
-	const json = decompressFromBase64(base64);
-	const data = JSON.parse(json);
-	return data as T;
+	return decompress<T>(base64);
 };
 
 /**
@@ -24,6 +47,158 @@ export const loadCompressed = <T = unknown>(key: string) => {
  * @param value - Value to save.
  */
 export const saveCompressed = <T = unknown>(key: string, value: T) => {
-	const base64 = compressToBase64(JSON.stringify(value));
-	localStorage.setItem(key, base64);
+	localStorage.setItem(key, compress(value));
+};
+
+/**
+ * Storage quota error.
+ * Raised when a value does not fit into the storage.
+ */
+export class StorageQuotaError extends Error {
+	public override name = 'StorageQuotaError';
+}
+
+/**
+ * Asynchronous key-value storage.
+ * Values are kept as JSON.
+ */
+export interface StorageBackend {
+	get<T = unknown>(key: string): Promise<T | null>;
+	set<T = unknown>(key: string, value: T): Promise<void>;
+	delete(key: string): Promise<void>;
+	list(prefix?: string): Promise<Array<string>>;
+}
+
+/**
+ * Checks whether the given error is caused by an exceeded storage quota.
+ * @param err - Error to check.
+ * @internal
+ */
+const isQuotaError = (err: unknown) => {
+	const name = (err as Error | null)?.name;
+	return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+};
+
+/**
+ * Local storage backend.
+ * Keys are prefixed with the storage name, values are compressed.
+ */
+export class LocalStorageBackend implements StorageBackend {
+	constructor(private name: string) {
+		return;
+	}
+
+	public async get<T = unknown>(key: string) {
+		return loadCompressed<T>(`${this.name}:${key}`);
+	}
+
+	public async set<T = unknown>(key: string, value: T) {
+		try {
+			saveCompressed(`${this.name}:${key}`, value);
+		} catch (err) {
+			throw isQuotaError(err) ? new StorageQuotaError((err as Error).message) : err;
+		}
+	}
+
+	public async delete(key: string) {
+		localStorage.removeItem(`${this.name}:${key}`);
+	}
+
+	public async list(prefix = '') {
+		const scope = `${this.name}:`;
+		const keys = Array.from(
+			{ length: localStorage.length },
+			(_, i) => localStorage.key(i)!,
+		);
+		return keys
+			.filter((key) => key.startsWith(scope + prefix))
+			.map((key) => key.slice(scope.length));
+	}
+}
+
+/**
+ * IndexedDB storage backend.
+ * Uses a single object store of the database named after the storage.
+ */
+export class IndexedDBBackend implements StorageBackend {
+	private static readonly STORE = 'values';
+
+	private constructor(private db: IDBDatabase) {
+		return;
+	}
+
+	/**
+	 * Opens IndexedDB storage.
+	 * @param name - Database name.
+	 * @returns Storage.
+	 */
+	static open(name: string) {
+		return new Promise<IndexedDBBackend>((resolve, reject) => {
+			const request = indexedDB.open(name, 1);
+			request.onupgradeneeded = () =>
+				request.result.createObjectStore(IndexedDBBackend.STORE);
+			request.onsuccess = () => resolve(new IndexedDBBackend(request.result));
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	public async get<T = unknown>(key: string) {
+		const json = await this.request<string | undefined>('readonly', (store) =>
+			store.get(key),
+		);
+		return json === undefined ? null : (JSON.parse(json) as T);
+	}
+
+	public async set<T = unknown>(key: string, value: T) {
+		await this.request('readwrite', (store) => store.put(JSON.stringify(value), key));
+	}
+
+	public async delete(key: string) {
+		await this.request('readwrite', (store) => store.delete(key));
+	}
+
+	public async list(prefix = '') {
+		const keys = await this.request<Array<IDBValidKey>>('readonly', (store) => {
+			return store.getAllKeys();
+		});
+		return keys.map(String).filter((key) => key.startsWith(prefix));
+	}
+
+	/**
+	 * Runs a request in a new transaction, resolving once the transaction is complete.
+	 * @param mode - Transaction mode.
+	 * @param run - Request factory.
+	 * @returns Request result.
+	 * @internal
+	 */
+	private request<T>(
+		mode: IDBTransactionMode,
+		run: (store: IDBObjectStore) => IDBRequest,
+	) {
+		return new Promise<T>((resolve, reject) => {
+			const transaction = this.db.transaction(IndexedDBBackend.STORE, mode);
+			const request = run(transaction.objectStore(IndexedDBBackend.STORE));
+			const fail = () => {
+				const err = transaction.error ?? request.error;
+				reject(isQuotaError(err) ? new StorageQuotaError(err!.message) : err);
+			};
+			transaction.oncomplete = () => resolve(request.result as T);
+			transaction.onabort = fail;
+			transaction.onerror = fail;
+		});
+	}
+}
+
+/**
+ * Opens storage of the given `name`.
+ * IndexedDB is used when available, local storage otherwise.
+ * @param name - Storage name.
+ * @returns Storage.
+ */
+export const openStorage = async (name: string): Promise<StorageBackend> => {
+	try {
+		return await IndexedDBBackend.open(name);
+	} catch (err) {
+		return new LocalStorageBackend(name);
+	}
 };